@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseBatchOutput, toBatchJSONL } from '../batches';
+import { Waterlight } from '../client';
+import type { ClientEvent } from '../logging';
+import { APIError, RateLimitError, WaterlightError } from '../errors';
+
+function jsonResponse(body: object, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const completion = (content: string) => ({
+  id: `chatcmpl-${content}`, object: 'chat.completion', created: 0, model: 'mist-1-turbo',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+});
+
+const outputLine = (custom_id: string, status_code: number, body: object) =>
+  JSON.stringify({ id: `batch_req_${custom_id}`, custom_id, response: { status_code, request_id: `req_${custom_id}`, body }, error: null });
+
+const BATCH = {
+  id: 'batch_1', object: 'batch', endpoint: '/v1/chat/completions', input_file_id: 'file-in',
+  completion_window: '24h', status: 'validating', created_at: 0,
+};
+
+const PARAMS = { model: 'mist-1-turbo', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+describe('batch files', () => {
+  it('writes one JSONL line per request with default custom_ids', () => {
+    const lines = toBatchJSONL([{ ...PARAMS, custom_id: 'greeting' }, PARAMS]).trimEnd().split('\n').map(l => JSON.parse(l));
+    expect(lines).toEqual([
+      { custom_id: 'greeting', method: 'POST', url: '/v1/chat/completions', body: PARAMS },
+      { custom_id: 'request-1', method: 'POST', url: '/v1/chat/completions', body: PARAMS },
+    ]);
+    expect(() => toBatchJSONL([{ ...PARAMS, custom_id: 'a' }, { ...PARAMS, custom_id: 'a' }])).toThrow(/Duplicate custom_id in batch: a/);
+    expect(() => toBatchJSONL([{ ...PARAMS, stream: true }])).toThrow(WaterlightError);
+  });
+
+  it('parses output into completions and typed errors by custom_id', () => {
+    const results = parseBatchOutput([
+      outputLine('a', 200, completion('first')),
+      outputLine('b', 429, { error: { message: 'slow down' } }),
+      JSON.stringify({ id: 'batch_req_c', custom_id: 'c', response: null, error: { code: 'batch_expired', message: 'expired' } }),
+      '',
+    ].join('\n'));
+
+    expect(results.a.response?.choices[0].message.content).toBe('first');
+    expect(results.b.error).toBeInstanceOf(RateLimitError);
+    expect(results.b.error).toMatchObject({ message: 'slow down', requestId: 'req_b' });
+    expect(results.c.error).toBeInstanceOf(APIError);
+    expect(results.c.error?.message).toBe('expired');
+  });
+});
+
+describe('client.files', () => {
+  it('uploads files as multipart form data', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ id: 'file-1', object: 'file', bytes: 3, created_at: 0, filename: 'data.jsonl', purpose: 'batch' }));
+    const events: ClientEvent[] = [];
+    const client = new Waterlight({ apiKey: 'k', baseUrl: 'https://api.test', fetch, onEvent: e => events.push(e) });
+    const dir = await mkdtemp(join(tmpdir(), 'waterlight-files-'));
+    try {
+      await writeFile(join(dir, 'data.jsonl'), '{}\n');
+      const file = await client.files.create({ file: join(dir, 'data.jsonl'), purpose: 'batch' });
+      expect(file.id).toBe('file-1');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+    await client.files.create({ file: new Uint8Array([1, 2]), purpose: 'user_data' });
+
+    const [url, init] = fetch.mock.calls[0] as any;
+    expect(url).toBe('https://api.test/v1/files');
+    expect(init.headers['Content-Type']).toBeUndefined();
+    const form: FormData = init.body;
+    expect(form.get('purpose')).toBe('batch');
+    expect((form.get('file') as File).name).toBe('data.jsonl');
+    expect(await (form.get('file') as File).text()).toBe('{}\n');
+    expect(((fetch.mock.calls[1] as any)[1].body.get('file') as File).name).toBe('upload');
+    expect(events.find(e => e.type === 'request')).toMatchObject({ body: { purpose: 'batch', file: '[file data.jsonl, 3 bytes]' } });
+  });
+
+  it('lists, retrieves, deletes and downloads files', async () => {
+    const fetch = vi.fn(async (url: string) => url.endsWith('/content')
+      ? new Response('line one\n')
+      : jsonResponse({ object: 'list', data: [] }));
+    const client = new Waterlight({ apiKey: 'k', baseUrl: 'https://api.test', fetch });
+
+    await client.files.list({ purpose: 'batch', limit: 2 });
+    await client.files.retrieve('file-1');
+    await client.files.delete('file-1');
+    expect(await (await client.files.content('file-1')).text()).toBe('line one\n');
+
+    expect(fetch.mock.calls.map(([url, init]: any) => `${init.method} ${url}`)).toEqual([
+      'GET https://api.test/v1/files?purpose=batch&limit=2',
+      'GET https://api.test/v1/files/file-1',
+      'DELETE https://api.test/v1/files/file-1',
+      'GET https://api.test/v1/files/file-1/content',
+    ]);
+  });
+});
+
+describe('client.batches', () => {
+  it('runs chat requests as a batch and returns results by custom_id', async () => {
+    const statuses = ['validating', 'in_progress', 'completed'];
+    const fetch = vi.fn(async (url: string, init: any) => {
+      const { pathname } = new URL(url);
+      if (pathname === '/v1/files') {
+        return jsonResponse({ id: 'file-in', object: 'file', bytes: 0, created_at: 0, filename: 'batch.jsonl', purpose: 'batch' });
+      }
+      if (pathname === '/v1/batches') return jsonResponse({ ...BATCH, metadata: JSON.parse(init.body).metadata });
+      if (pathname === '/v1/batches/batch_1') {
+        const status = statuses.shift();
+        return jsonResponse({ ...BATCH, status, ...(status === 'completed' ? { output_file_id: 'file-out', error_file_id: 'file-err' } : {}) });
+      }
+      if (pathname === '/v1/files/file-out/content') return new Response(outputLine('a', 200, completion('yes')) + '\n');
+      if (pathname === '/v1/files/file-err/content') return new Response(outputLine('b', 400, { error: { message: 'bad request' } }) + '\n');
+      return jsonResponse({}, 404);
+    });
+    const client = new Waterlight({ apiKey: 'k', fetch });
+    const progress: string[] = [];
+
+    const { batch, results } = await client.batches.runChatCompletions(
+      [{ ...PARAMS, custom_id: 'a' }, { ...PARAMS, custom_id: 'b' }],
+      { pollInterval: 1, metadata: { job: 'nightly' }, onProgress: b => progress.push(b.status) },
+    );
+
+    expect(batch.status).toBe('completed');
+    expect(progress).toEqual(['validating', 'in_progress', 'completed']);
+    expect(results.a.response?.choices[0].message.content).toBe('yes');
+    expect(results.b.error).toMatchObject({ status: 400, message: 'bad request' });
+    const upload: FormData = (fetch.mock.calls[0] as any)[1].body;
+    expect((await (upload.get('file') as File).text()).split('\n')[0]).toContain('"custom_id":"a"');
+    expect(JSON.parse((fetch.mock.calls[1] as any)[1].body)).toEqual({
+      input_file_id: 'file-in', endpoint: '/v1/chat/completions', completion_window: '24h', metadata: { job: 'nightly' },
+    });
+  });
+
+  it('raises the reasons a batch failed', async () => {
+    const fetch = vi.fn(async (url: string) => new URL(url).pathname === '/v1/files'
+      ? jsonResponse({ id: 'file-in' })
+      : jsonResponse({ ...BATCH, status: 'failed', errors: { object: 'list', data: [{ code: 'invalid_model', message: 'no such model', line: 1 }] } }));
+    const client = new Waterlight({ apiKey: 'k', fetch });
+
+    await expect(client.batches.runChatCompletions([PARAMS], { pollInterval: 1 }))
+      .rejects.toThrow('Batch batch_1 failed: line 1: no such model');
+  });
+
+  it('cancels and lists batches', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ ...BATCH, status: 'cancelling' }));
+    const client = new Waterlight({ apiKey: 'k', baseUrl: 'https://api.test', fetch });
+
+    expect((await client.batches.cancel('batch_1')).status).toBe('cancelling');
+    await client.batches.list({ limit: 10, after: 'batch_0' });
+
+    expect(fetch.mock.calls.map(([url, init]: any) => `${init.method} ${url}`)).toEqual([
+      'POST https://api.test/v1/batches/batch_1/cancel',
+      'GET https://api.test/v1/batches?limit=10&after=batch_0',
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Waterlight } from '../client';
+import { FileCacheStore, MemoryCacheStore, completionToChunks } from '../cache';
+
+function jsonResponse(body: object): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+function sseResponse(chunks: object[]): Response {
+  const text = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const COMPLETION = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 1700000000,
+  model: 'mist-1-turbo',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+};
+
+const PARAMS = { model: 'mist-1-turbo', messages: [{ role: 'user' as const, content: 'Hi' }], temperature: 0 };
+
+let mockFetch: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  mockFetch = vi.fn(async () => jsonResponse(COMPLETION));
+  vi.stubGlobal('fetch', mockFetch);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('response cache', () => {
+  it('is off unless configured', async () => {
+    const client = new Waterlight({ apiKey: 'test-key' });
+    const first = await client.chat.completions.create(PARAMS);
+    await client.chat.completions.create(PARAMS);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(first.cache).toBeUndefined();
+    expect(client.cacheStore).toBeUndefined();
+  });
+
+  it('serves repeated deterministic chat requests from the cache', async () => {
+    const client = new Waterlight({ apiKey: 'test-key', cache: true });
+
+    const first = await client.chat.completions.create(PARAMS);
+    // Same request with keys in a different order.
+    const second = await client.chat.completions.create({ temperature: 0, messages: PARAMS.messages, model: 'mist-1-turbo' });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(first.cache).toMatchObject({ hit: false });
+    expect(second.cache).toEqual({ hit: true, key: first.cache!.key, createdAt: first.cache!.createdAt });
+    expect(second.choices[0].message.content).toBe('Hello!');
+  });
+
+  it('skips non-deterministic chat requests unless forced, and honours cache: false', async () => {
+    const client = new Waterlight({ apiKey: 'test-key', cache: true });
+    const sampled = { ...PARAMS, temperature: 0.7 };
+
+    await client.chat.completions.create(sampled);
+    const again = await client.chat.completions.create(sampled);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(again.cache).toBeUndefined();
+
+    await client.chat.completions.create(sampled, { cache: true });
+    await client.chat.completions.create(sampled, { cache: true });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+
+    await client.chat.completions.create(PARAMS);
+    await client.chat.completions.create(PARAMS, { cache: false });
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+  });
+
+  it('uses different keys for different requests', async () => {
+    const client = new Waterlight({ apiKey: 'test-key', cache: true });
+    const a = await client.chat.completions.create(PARAMS);
+    const b = await client.chat.completions.create({ ...PARAMS, messages: [{ role: 'user', content: 'Bye' }] });
+    expect(a.cache!.key).not.toBe(b.cache!.key);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('expires entries after the ttl', async () => {
+    vi.useFakeTimers();
+    const client = new Waterlight({ apiKey: 'test-key', cache: { ttl: 1000 } });
+
+    await client.chat.completions.create(PARAMS);
+    vi.advanceTimersByTime(999);
+    await client.chat.completions.create(PARAMS);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    const refreshed = await client.chat.completions.create(PARAMS);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(refreshed.cache?.hit).toBe(false);
+  });
+
+  it('caches embeddings and models.list but not billing', async () => {
+    mockFetch.mockImplementation(async (url: string) => jsonResponse(
+      url.endsWith('/v1/embeddings')
+        ? { object: 'list', model: 'e', data: [{ object: 'embedding', index: 0, embedding: [1, 2] }], usage: { prompt_tokens: 1, total_tokens: 1 } }
+        : url.endsWith('/v1/models') ? { object: 'list', data: [] }
+        : { credits_remaining: 1 },
+    ));
+    const client = new Waterlight({ apiKey: 'test-key', cache: true });
+
+    await client.embeddings.create({ input: ['x'] });
+    const embeddings = await client.embeddings.create({ input: ['x'] });
+    await client.models.list();
+    const models = await client.models.list();
+    await client.billing.get();
+    await client.billing.get();
+
+    expect(embeddings.cache?.hit).toBe(true);
+    expect(embeddings.data[0].embedding).toEqual([1, 2]);
+    expect(models.cache?.hit).toBe(true);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not let callers mutate cached results', async () => {
+    const client = new Waterlight({ apiKey: 'test-key', cache: true });
+    const first = await client.chat.completions.create(PARAMS);
+    first.choices[0].message.content = 'changed';
+    const second = await client.chat.completions.create(PARAMS);
+    expect(second.choices[0].message.content).toBe('Hello!');
+  });
+
+  it('replays a cached completion to a streaming request as chunks', async () => {
+    const client = new Waterlight({ apiKey: 'test-key', cache: true });
+    await client.chat.completions.create(PARAMS);
+
+    const stream = client.chat.completions.create({ ...PARAMS, stream: true });
+    const deltas: string[] = [];
+    for await (const chunk of stream) deltas.push(chunk.choices[0]?.delta?.content ?? '');
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(deltas.join('')).toBe('Hello!');
+    expect(stream.cache?.hit).toBe(true);
+    const final = await stream.finalChatCompletion();
+    expect(final.choices[0]).toEqual(COMPLETION.choices[0]);
+    expect(final.usage).toEqual(COMPLETION.usage);
+  });
+
+  it('stores a completed stream for later requests', async () => {
+    mockFetch.mockResolvedValueOnce(sseResponse(completionToChunks(COMPLETION as any)));
+    const client = new Waterlight({ apiKey: 'test-key', cache: true });
+
+    await client.chat.completions.create({ ...PARAMS, stream: true }).finalChatCompletion();
+    await new Promise(r => setTimeout(r, 0));
+    const cached = await client.chat.completions.create(PARAMS);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(cached.cache?.hit).toBe(true);
+    expect(cached.choices[0].message.content).toBe('Hello!');
+    expect(cached.usage).toEqual(COMPLETION.usage);
+  });
+
+  it('does not store a stream that reported no usage', async () => {
+    const { usage, ...withoutUsage } = COMPLETION;
+    mockFetch.mockResolvedValueOnce(sseResponse(completionToChunks(withoutUsage as any)));
+    const client = new Waterlight({ apiKey: 'test-key', cache: true });
+
+    await client.chat.completions.create({ ...PARAMS, stream: true }).finalChatCompletion();
+    await new Promise(r => setTimeout(r, 0));
+    const fetched = await client.chat.completions.create(PARAMS);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(fetched.cache?.hit).toBe(false);
+    expect(fetched.usage).toEqual(usage);
+  });
+
+  it('replays tool calls', () => {
+    const call = { id: 'c1', type: 'function' as const, function: { name: 'f', arguments: '{"a":1}' } };
+    const chunks = completionToChunks({
+      ...COMPLETION,
+      object: 'chat.completion',
+      choices: [{ index: 0, message: { role: 'assistant', content: null, tool_calls: [call] }, finish_reason: 'tool_calls' }],
+    });
+    expect(chunks[0].choices[0].delta.tool_calls).toEqual([{ index: 0, ...call }]);
+    expect(chunks[1].choices[0].finish_reason).toBe('tool_calls');
+  });
+
+  it('replays refusals, logprobs and system_fingerprint', () => {
+    const logprobs = { content: null, refusal: [{ token: 'No', logprob: -0.1, bytes: null, top_logprobs: [] }] };
+    const chunks = completionToChunks({
+      ...COMPLETION,
+      object: 'chat.completion',
+      system_fingerprint: 'fp_1',
+      choices: [{ index: 0, message: { role: 'assistant', content: null, refusal: 'No' }, finish_reason: 'stop', logprobs }],
+    });
+    expect(chunks[0].system_fingerprint).toBe('fp_1');
+    expect(chunks[0].choices[0]).toMatchObject({ delta: { refusal: 'No' }, logprobs });
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', { value: 1, createdAt: 0 });
+    store.set('b', { value: 2, createdAt: 0 });
+    store.get('a');
+    store.set('c', { value: 3, createdAt: 0 });
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('a')?.value).toBe(1);
+    expect(store.size).toBe(2);
+  });
+});
+
+describe('FileCacheStore', () => {
+  it('persists entries across clients', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'waterlight-cache-'));
+    try {
+      const first = new Waterlight({ apiKey: 'test-key', cache: { store: new FileCacheStore(join(dir, 'c')) } });
+      await first.chat.completions.create(PARAMS);
+
+      const second = new Waterlight({ apiKey: 'test-key', cache: { store: new FileCacheStore(join(dir, 'c')) } });
+      const result = await second.chat.completions.create(PARAMS);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.cache?.hit).toBe(true);
+      expect(await readdir(join(dir, 'c'))).toEqual([`${result.cache!.key}.json`]);
+
+      await second.cacheStore!.clear();
+      expect(await readdir(join(dir, 'c'))).toEqual([]);
+      expect(await new FileCacheStore(join(dir, 'missing')).get('x')).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
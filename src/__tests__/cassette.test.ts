@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Waterlight } from '../client';
+import { Cassette } from '../cassette';
+import { MockServer } from '../mock-server';
+import { CassetteError, RateLimitError } from '../errors';
+
+const API_KEY = 'wl-secret-test-key';
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+let server: MockServer;
+let dir: string;
+let file: string;
+
+/** A client that fails the test if it touches the network. */
+function offlineClient(cassette: Cassette, opts: { maxRetries?: number } = {}): Waterlight {
+  return new Waterlight({
+    apiKey: API_KEY,
+    baseUrl: 'https://api.waterlight.io',
+    middleware: [cassette.middleware],
+    fetch: async () => { throw new Error('network used during replay'); },
+    ...opts,
+  });
+}
+
+beforeAll(async () => {
+  server = await new MockServer().start();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'waterlight-cassette-'));
+  file = join(dir, 'nested', 'chat.json');
+});
+
+afterEach(async () => {
+  server.reset();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('Cassette', () => {
+  it('records JSON and streamed interactions with the API key scrubbed', async () => {
+    server.enqueue('/v1/chat/completions', { content: 'Hi there' }, { content: 'streamed reply' });
+    const cassette = new Cassette(file, { mode: 'record' });
+    const client = new Waterlight({ apiKey: API_KEY, baseUrl: server.url, middleware: [cassette.middleware] });
+
+    await client.chat.completions.create({ model: 'mist-1-turbo', messages });
+    const streamed = await client.chat.completions.create({ model: 'mist-1-turbo', messages, stream: true }).finalContent();
+    await cassette.flush();
+
+    expect(streamed).toBe('streamed reply');
+    const text = await readFile(file, 'utf8');
+    expect(text).not.toContain(API_KEY);
+    const data = JSON.parse(text);
+    expect(data.version).toBe(1);
+    expect(data.interactions).toHaveLength(2);
+    const [json, sse] = data.interactions;
+    expect(json.request).toMatchObject({ method: 'POST', url: '/v1/chat/completions', body: { model: 'mist-1-turbo', stream: false } });
+    expect(json.request.headers.Authorization).toBe('[REDACTED]');
+    expect(json.response.headers['x-request-id']).toMatch(/^req_mock_/);
+    expect(sse.response.headers['content-type']).toBe('text/event-stream');
+    expect(sse.response.body).toContain('data: [DONE]');
+  });
+
+  it('replays recordings without network access', async () => {
+    server.enqueue('/v1/chat/completions', { content: 'Hi there' }, { content: 'streamed reply' });
+    const recorder = new Cassette(file, { mode: 'record' });
+    const live = new Waterlight({ apiKey: API_KEY, baseUrl: server.url, middleware: [recorder.middleware] });
+    const recorded = await live.chat.completions.create({ model: 'mist-1-turbo', messages });
+    await live.chat.completions.create({ model: 'mist-1-turbo', messages, stream: true }).finalContent();
+    await recorder.flush();
+
+    const client = offlineClient(new Cassette(file, { mode: 'replay' }));
+    const replayed = await client.chat.completions.create({ model: 'mist-1-turbo', messages });
+    const stream = client.chat.completions.create({ model: 'mist-1-turbo', messages, stream: true });
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(chunk.choices[0]?.delta?.content ?? '');
+
+    expect(replayed).toEqual(recorded);
+    expect(chunks.join('')).toBe('streamed reply');
+  });
+
+  it('fails loudly on an unrecorded request in replay mode', async () => {
+    await writeFile(join(dir, 'empty.json'), JSON.stringify({ version: 1, interactions: [] }));
+    const client = offlineClient(new Cassette(join(dir, 'empty.json'), { mode: 'replay' }));
+
+    const err = await client.models.list().catch(e => e);
+
+    expect(err).toBeInstanceOf(CassetteError);
+    expect(err.message).toContain('GET /v1/models');
+  });
+
+  it('fails when the cassette file is missing in replay mode', async () => {
+    const client = offlineClient(new Cassette(join(dir, 'missing.json'), { mode: 'replay' }));
+    await expect(client.models.list()).rejects.toThrow(/Cannot read cassette/);
+  });
+
+  it('matches on the request body and replays repeated requests in order', async () => {
+    server.enqueue('/v1/chat/completions', { status: 429, retryAfter: 0 }, { content: 'after retry' }, { content: 'other' });
+    const recorder = new Cassette(file, { mode: 'record' });
+    const live = new Waterlight({ apiKey: API_KEY, baseUrl: server.url, middleware: [recorder.middleware] });
+    await live.chat.completions.create({ model: 'mist-1-turbo', messages });
+    await live.chat.completions.create({ model: 'mist-1-turbo', messages: [{ role: 'user', content: 'Other' }] });
+    await recorder.flush();
+
+    const client = offlineClient(new Cassette(file, { mode: 'replay' }));
+    // Body key order does not matter; the recorded 429 is retried into the recorded 200.
+    const other = await client.chat.completions.create({ messages: [{ role: 'user', content: 'Other' }], model: 'mist-1-turbo' });
+    const first = await client.chat.completions.create({ model: 'mist-1-turbo', messages });
+
+    expect(other.choices[0].message.content).toBe('other');
+    expect(first.choices[0].message.content).toBe('after retry');
+    await expect(client.chat.completions.create({ model: 'mist-1-turbo', messages: [{ role: 'user', content: 'New' }] }))
+      .rejects.toThrow(CassetteError);
+
+    const noRetry = offlineClient(new Cassette(file, { mode: 'replay' }), { maxRetries: 0 });
+    await expect(noRetry.chat.completions.create({ model: 'mist-1-turbo', messages })).rejects.toThrow(RateLimitError);
+  });
+
+  it('requires recorded order in strict mode', async () => {
+    const recorder = new Cassette(file, { mode: 'record' });
+    const live = new Waterlight({ apiKey: API_KEY, baseUrl: server.url, middleware: [recorder.middleware] });
+    await live.models.list();
+    await live.billing.get();
+    await recorder.flush();
+
+    const outOfOrder = offlineClient(new Cassette(file, { mode: 'replay', match: 'strict' }));
+    await expect(outOfOrder.billing.get()).rejects.toThrow(/strict mode/);
+
+    const inOrder = offlineClient(new Cassette(file, { mode: 'replay', match: 'strict' }));
+    await inOrder.models.list();
+    await expect(inOrder.billing.get()).resolves.toMatchObject({ plan: 'mock' });
+  });
+
+  it('replays what it has and records the rest in auto mode', async () => {
+    const first = new Cassette(file, { mode: 'auto' });
+    const live = new Waterlight({ apiKey: API_KEY, baseUrl: server.url, middleware: [first.middleware] });
+    await live.models.list();
+    await first.flush();
+
+    const second = new Cassette(file, { mode: 'auto' });
+    const client = new Waterlight({ apiKey: API_KEY, baseUrl: server.url, middleware: [second.middleware] });
+    await client.models.list();
+    await client.billing.get();
+    await second.flush();
+
+    expect(server.requestsTo('/v1/models')).toHaveLength(1);
+    expect(server.requestsTo('/v1/billing')).toHaveLength(1);
+    expect(JSON.parse(await readFile(file, 'utf8')).interactions).toHaveLength(2);
+  });
+
+  it('scrubs extra secrets', async () => {
+    const cassette = new Cassette(file, { mode: 'record', secrets: ['customer-1234567'] });
+    const client = new Waterlight({ apiKey: API_KEY, baseUrl: server.url, middleware: [cassette.middleware] });
+    await client.chat.completions.create({ model: 'mist-1-turbo', messages: [{ role: 'user', content: 'id customer-1234567' }] });
+    await cassette.flush();
+
+    expect(await readFile(file, 'utf8')).not.toContain('customer-1234567');
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { PassThrough, Readable } from 'stream';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { main } from '../cli';
+import { MockServer } from '../mock-server';
+
+let server: MockServer;
+
+beforeAll(async () => {
+  server = await new MockServer().start();
+});
+
+afterEach(() => {
+  server.reset();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+function collect(): PassThrough & { text: () => string } {
+  const out = new PassThrough();
+  let text = '';
+  out.on('data', chunk => { text += chunk; });
+  return Object.assign(out, { text: () => text });
+}
+
+async function run(argv: string[], stdin: string | string[] = '', isTTY = false) {
+  const input = Object.assign(Readable.from(Array.isArray(stdin) ? stdin : [stdin]), { isTTY });
+  const stdout = collect();
+  const stderr = collect();
+  const code = await main(argv, {
+    stdin: input,
+    stdout,
+    stderr,
+    env: { WATERLIGHT_API_KEY: 'test-key', WATERLIGHT_BASE_URL: server.url },
+  });
+  return { code, stdout: stdout.text(), stderr: stderr.text() };
+}
+
+describe('waterlight CLI', () => {
+  it('streams a one-shot chat reply using the env configuration', async () => {
+    const { code, stdout } = await run(['chat', '-m', 'mist-1-mini', '--temperature', '0', 'Hello', 'there']);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('Mock reply to: Hello there\n');
+    const request = server.lastRequest('/v1/chat/completions')!;
+    expect(request.headers.authorization).toBe('Bearer test-key');
+    expect(request.body).toMatchObject({ model: 'mist-1-mini', temperature: 0, stream: true });
+  });
+
+  it('reads the prompt from stdin and prints JSON with --json', async () => {
+    const { code, stdout } = await run(['chat', '--json'], 'Piped prompt\n');
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ object: 'chat.completion', choices: [{ message: { content: 'Mock reply to: Piped prompt' } }] });
+  });
+
+  it('keeps history across REPL turns and supports /clear', async () => {
+    const { code, stdout } = await run(['chat', '-i', '-s', 'Be brief.'], ['first\n', 'second\n', '/clear\n', 'third\n', '/exit\n']);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Mock reply to: second\n');
+    const bodies = server.requestsTo('/v1/chat/completions').map(r => r.body.messages.map((m: any) => m.content));
+    expect(bodies).toEqual([
+      ['Be brief.', 'first'],
+      ['Be brief.', 'first', 'Mock reply to: first', 'second'],
+      ['Be brief.', 'third'],
+    ]);
+  });
+
+  it('reports a failed REPL turn and carries on', async () => {
+    server.enqueue('/v1/chat/completions', { status: 400, message: 'bad request' });
+    const { code, stdout, stderr } = await run(['chat', '-i', '--no-stream'], ['oops\n', 'again\n']);
+
+    expect(code).toBe(0);
+    expect(stderr).toContain('bad request');
+    expect(stdout).toContain('Mock reply to: again\n');
+    expect(server.lastRequest('/v1/chat/completions')!.body.messages).toHaveLength(1);
+  });
+
+  it('saves and resumes a session file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'waterlight-cli-'));
+    try {
+      const session = join(dir, 'session.json');
+      await run(['chat', '--session', session, '-s', 'Be brief.', 'one']);
+      await run(['chat', '--session', session, 'two']);
+
+      expect(server.lastRequest('/v1/chat/completions')!.body.messages).toHaveLength(4);
+      expect(JSON.parse(await readFile(session, 'utf8')).messages).toHaveLength(5);
+      expect((await run(['chat', '--session', session, '-s', 'x', 'three'])).code).toBe(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('embeds lines from a file as JSONL', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'waterlight-cli-'));
+    try {
+      await writeFile(join(dir, 'input.txt'), 'alpha\n\nbeta\n');
+      const { code, stdout } = await run(['embed', '--batch-size', '1', join(dir, 'input.txt')]);
+
+      const lines = stdout.trim().split('\n').map(l => JSON.parse(l));
+      expect(code).toBe(0);
+      expect(lines.map(l => [l.index, l.input])).toEqual([[0, 'alpha'], [1, 'beta']]);
+      expect(lines[0].embedding).toHaveLength(8);
+      expect(server.requestsTo('/v1/embeddings')).toHaveLength(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('prints models as a table or JSON', async () => {
+    const table = await run(['models']);
+    const json = await run(['models', '--json']);
+
+    expect(table.stdout.split('\n')[0]).toMatch(/^ID\s+OWNED BY\s+CREATED$/);
+    expect(table.stdout).toContain('mist-embed');
+    expect(JSON.parse(json.stdout).data).toHaveLength(2);
+  });
+
+  it('formats billing with spend against the budget', async () => {
+    server.route('/v1/billing', () => ({
+      body: {
+        plan: 'team', billing_mode: 'budget', spent_usd: 12.5, budget_usd: 50, remaining_usd: 37.5,
+        total_requests: 1234, total_tokens: 567890, rpm_limit: 600, tpm_limit: 1_000_000,
+      },
+    }));
+    const { code, stdout } = await run(['billing']);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Plan:        team (budget)\n');
+    expect(stdout).toContain('Spent:       $12.50 of $50.00 budget (25.0%)\n');
+    expect(stdout).toContain('Tokens:      567,890\n');
+    expect(stdout).toContain('Rate limits: 600 RPM, 1,000,000 TPM\n');
+  });
+
+  it('exits 2 on usage errors and 1 on API errors', async () => {
+    server.enqueue('/v1/models', { status: 404, message: 'no such endpoint' });
+    const failed = await run(['models']);
+    expect(failed.code).toBe(1);
+    expect(failed.stderr).toBe('waterlight: no such endpoint\n');
+
+    expect((await run(['nope'])).code).toBe(2);
+    expect((await run(['chat', '--bogus'])).stderr).toContain('Unknown option --bogus');
+    expect((await run(['chat', '-t', 'hot', 'hi'])).code).toBe(2);
+    expect((await run(['chat'], '')).stderr).toContain('No prompt given');
+    expect((await run(['embed'], '\n')).code).toBe(2);
+  });
+
+  it('prints help and the version', async () => {
+    const help = await run(['chat', '--help']);
+    expect(help.code).toBe(0);
+    expect(help.stdout).toContain('--max-tokens <n>');
+    expect((await run(['--help'])).stdout).toContain('billing');
+    expect((await run(['--version'])).stdout).toMatch(/^\d+\.\d+\.\d+\n$/);
+  });
+});
@@ -2,10 +2,12 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Waterlight } from '../client';
 import {
   WaterlightError,
+  APIUserAbortError,
   AuthenticationError,
   RateLimitError,
   InsufficientCreditsError,
   APIError,
+  StructuredOutputError,
 } from '../errors';
 import { Stream } from '../streaming';
 
@@ -169,6 +171,69 @@ describe('Non-streaming chat.completions.create', () => {
   });
 });
 
+describe('chat.completions.parse', () => {
+  const FORMAT = {
+    type: 'json_schema' as const,
+    json_schema: {
+      name: 'person',
+      schema: {
+        type: 'object',
+        properties: { name: { type: 'string' }, age: { type: 'integer' } },
+        required: ['name', 'age'],
+      },
+    },
+  };
+
+  function withMessage(message: object, finish_reason = 'stop') {
+    return { ...COMPLETION, choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason }] };
+  }
+
+  it('sends response_format and returns validated, parsed content', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(withMessage({ content: '{"name":"Ada","age":36}' })));
+    const client = new Waterlight({ apiKey: 'k' });
+
+    const result = await client.chat.completions.parse({
+      model: 'm', messages: [{ role: 'user', content: 'Ada, 36' }], response_format: FORMAT,
+    });
+
+    expect(result.choices[0].message.parsed).toEqual({ name: 'Ada', age: 36 });
+    expect(result.choices[0].message.content).toBe('{"name":"Ada","age":36}');
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.response_format).toEqual(FORMAT);
+    expect(body.stream).toBe(false);
+  });
+
+  it('parses json_object responses without a schema', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(withMessage({ content: '{"anything":[1]}' })));
+    const client = new Waterlight({ apiKey: 'k' });
+
+    const result = await client.chat.completions.parse({
+      model: 'm', messages: [], response_format: { type: 'json_object' },
+    });
+    expect(result.choices[0].message.parsed).toEqual({ anything: [1] });
+  });
+
+  it.each([
+    ['refusal', withMessage({ content: null, refusal: 'I cannot help with that' })],
+    ['length', withMessage({ content: '{"name":"Ad' }, 'length')],
+    ['invalid_json', withMessage({ content: 'Sure! Here you go' })],
+    ['validation', withMessage({ content: '{"name":"Ada","age":"old"}' })],
+  ])('raises StructuredOutputError (%s)', async (reason, payload) => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(payload));
+    const client = new Waterlight({ apiKey: 'k' });
+
+    try {
+      await client.chat.completions.parse({ model: 'm', messages: [], response_format: FORMAT });
+      expect.unreachable('should have thrown');
+    } catch (e: any) {
+      expect(e).toBeInstanceOf(StructuredOutputError);
+      expect(e.reason).toBe(reason);
+      expect(e.completion.id).toBe('chatcmpl-abc');
+      if (reason === 'validation') expect(e.errors).toEqual(['$.age: expected integer, got string']);
+    }
+  });
+});
+
 // ===========================================================================
 // 3. Error handling — status code mapping
 // ===========================================================================
@@ -424,6 +489,141 @@ describe('Timeout', () => {
   });
 });
 
+// ===========================================================================
+// 6b. Per-request options
+// ===========================================================================
+
+describe('Request options', () => {
+  /** fetch that only settles when its signal aborts. */
+  function hangingFetch() {
+    return (_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => {
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      });
+    });
+  }
+
+  it('caller abort surfaces as APIUserAbortError, not a timeout', async () => {
+    const client = new Waterlight({ apiKey: 'k' });
+    mockFetch.mockImplementation(hangingFetch());
+    const controller = new AbortController();
+
+    const promise = client.chat.completions.create(
+      { model: 'm', messages: [] },
+      { signal: controller.signal },
+    );
+    controller.abort();
+
+    await expect(promise).rejects.toThrow(APIUserAbortError);
+  });
+
+  it('does not send a request when the signal is already aborted', async () => {
+    const client = new Waterlight({ apiKey: 'k' });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.models.list({ signal: controller.signal })).rejects.toThrow(APIUserAbortError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('abort during retry backoff stops retrying', async () => {
+    const client = new Waterlight({ apiKey: 'k', maxRetries: 3 });
+    mockFetch.mockResolvedValueOnce(errorResponse(500, {}, { 'retry-after': '60' }));
+    const controller = new AbortController();
+
+    const promise = client.billing.get({ signal: controller.signal });
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledOnce());
+    controller.abort();
+
+    await expect(promise).rejects.toThrow(APIUserAbortError);
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it('per-request timeout overrides the client timeout', async () => {
+    const client = new Waterlight({ apiKey: 'k', timeout: 60_000 });
+    mockFetch.mockImplementation(hangingFetch());
+
+    await expect(
+      client.embeddings.create({ input: 'x' }, { timeout: 20 }),
+    ).rejects.toThrow('Request timed out');
+  });
+
+  it('per-request maxRetries overrides the client setting', async () => {
+    const client = new Waterlight({ apiKey: 'k', maxRetries: 3 });
+    mockFetch.mockResolvedValue(errorResponse(500, {}));
+
+    await expect(client.models.list({ maxRetries: 0 })).rejects.toThrow(APIError);
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it('merges extra headers and appends query params', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ object: 'list', data: [] }));
+    const client = new Waterlight({ apiKey: 'k', baseUrl: 'https://api.test' });
+
+    await client.models.list({
+      headers: { 'X-Tenant': 'acme' },
+      query: { limit: 5, owner: 'waterlight', skip: undefined },
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://api.test/v1/models?limit=5&owner=waterlight');
+    expect(init.headers['X-Tenant']).toBe('acme');
+    expect(init.headers['Authorization']).toBe('Bearer k');
+  });
+
+  it('streams honour signal and headers', async () => {
+    mockFetch.mockImplementation(hangingFetch());
+    const client = new Waterlight({ apiKey: 'k' });
+    const controller = new AbortController();
+    const stream = client.chat.completions.create(
+      { model: 'm', messages: [], stream: true },
+      { signal: controller.signal, headers: { 'X-Trace': 't1' } },
+    );
+
+    const done = stream.finalChatCompletion();
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledOnce());
+    controller.abort();
+
+    await expect(done).rejects.toThrow(APIUserAbortError);
+    expect(mockFetch.mock.calls[0][1].headers['X-Trace']).toBe('t1');
+  });
+});
+
+describe('Injectable fetch', () => {
+  it('uses the supplied fetch for plain and streaming requests instead of the global', async () => {
+    const customFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(COMPLETION))
+      .mockResolvedValueOnce(new Response(sseStream([`data: [DONE]\n\n`]), { status: 200 }));
+    const client = new Waterlight({ apiKey: 'k', fetch: customFetch });
+
+    await client.chat.completions.create({ model: 'm', messages: [] });
+    await client.chat.completions.create({ model: 'm', messages: [], stream: true }).finalChatCompletion();
+
+    expect(customFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('applies defaultHeaders and fetchOptions, with per-request headers winning', async () => {
+    const customFetch = vi.fn().mockResolvedValue(jsonResponse({ object: 'list', data: [] }));
+    const dispatcher = { name: 'keep-alive-agent' };
+    const client = new Waterlight({
+      apiKey: 'k',
+      fetch: customFetch,
+      defaultHeaders: { 'X-Tenant': 'acme', 'X-Env': 'prod' },
+      fetchOptions: { dispatcher },
+    });
+
+    await client.models.list({ headers: { 'X-Env': 'staging' } });
+
+    const [, init] = customFetch.mock.calls[0];
+    expect(init.headers['X-Tenant']).toBe('acme');
+    expect(init.headers['X-Env']).toBe('staging');
+    expect(init.headers['Authorization']).toBe('Bearer k');
+    expect(init.dispatcher).toBe(dispatcher);
+    expect(init.method).toBe('GET');
+  });
+});
+
 // ===========================================================================
 // 7. Streaming
 // ===========================================================================
@@ -506,7 +706,7 @@ describe('Streaming', () => {
     expect(chunks).toHaveLength(1);
   });
 
-  it('skips malformed JSON chunks gracefully', async () => {
+  it('raises APIError on malformed JSON chunks instead of dropping them', async () => {
     const body = sseStream([
       `data: ${JSON.stringify(CHUNK_1)}\n\n`,
       `data: {invalid json\n\n`,
@@ -524,13 +724,55 @@ describe('Streaming', () => {
     });
 
     const chunks: any[] = [];
-    for await (const chunk of stream) {
+    await expect(async () => {
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+    }).rejects.toThrow(/Malformed stream chunk/);
+    // chunks before the malformed one are still delivered
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].id).toBe('chunk-1');
+  });
+
+  it('handles CRLF framing, multi-line data and heartbeat comments', async () => {
+    const json = JSON.stringify(CHUNK_1);
+    const split = json.indexOf(',') + 1;
+    const body = sseStream([
+      `: keep-alive\r\n\r\n`,
+      `data: ${json.slice(0, split)}\r`,
+      `\ndata: ${json.slice(split)}\r\n\r\n`,
+      `event: ping\r\ndata: {}\r\n\r\n`,
+      `data: [DONE]\r\n\r\n`,
+    ]);
+    mockFetch.mockResolvedValueOnce(new Response(body, { status: 200 }));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const chunks: any[] = [];
+    for await (const chunk of client.chat.completions.create({ model: 'm', messages: [], stream: true })) {
       chunks.push(chunk);
     }
-    // malformed chunk skipped, 2 valid chunks yielded
-    expect(chunks).toHaveLength(2);
-    expect(chunks[0].id).toBe('chunk-1');
-    expect(chunks[1].id).toBe('chunk-2');
+    // multi-line data is joined with "\n", which JSON.parse accepts as whitespace
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].choices[0].delta.content).toBe('Hello');
+  });
+
+  it('surfaces `event: error` frames as typed errors', async () => {
+    const body = sseStream([
+      `data: ${JSON.stringify(CHUNK_1)}\n\n`,
+      `event: error\ndata: ${JSON.stringify({ error: { message: 'Out of credits', code: 402 } })}\n\n`,
+    ]);
+    mockFetch.mockResolvedValueOnce(new Response(body, { status: 200, headers: { 'x-request-id': 'req-e1' } }));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const stream = client.chat.completions.create({ model: 'm', messages: [], stream: true });
+    try {
+      await stream.finalChatCompletion();
+      expect.unreachable('should have thrown');
+    } catch (e: any) {
+      expect(e).toBeInstanceOf(InsufficientCreditsError);
+      expect(e.message).toBe('Out of credits');
+      expect(e.requestId).toBe('req-e1');
+    }
   });
 
   it('sends correct streaming headers', async () => {
@@ -556,10 +798,114 @@ describe('Streaming', () => {
     expect(parsed.stream).toBe(true);
   });
 
+  it('finalChatCompletion() reassembles content, finish_reason and usage', async () => {
+    const usage = { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 };
+    const body = sseStream([
+      `data: ${JSON.stringify({ ...CHUNK_1, choices: [{ index: 0, delta: { role: 'assistant', content: 'Hello' }, finish_reason: null }] })}\n\n`,
+      `data: ${JSON.stringify(CHUNK_2)}\n\n`,
+      `data: ${JSON.stringify(CHUNK_DONE)}\n\n`,
+      `data: ${JSON.stringify({ ...CHUNK_DONE, choices: [], usage })}\n\n`,
+      `data: [DONE]\n\n`,
+    ]);
+    mockFetch.mockResolvedValueOnce(new Response(body, { status: 200 }));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const stream = client.chat.completions.create({
+      model: 'm', messages: [{ role: 'user', content: 'x' }], stream: true,
+    });
+    const completion = await stream.finalChatCompletion();
+
+    expect(completion.id).toBe('chunk-1');
+    expect(completion.object).toBe('chat.completion');
+    expect(completion.choices).toEqual([
+      { index: 0, message: { role: 'assistant', content: 'Hello world' }, finish_reason: 'stop' },
+    ]);
+    expect(completion.usage).toEqual(usage);
+    expect(await stream.finalContent()).toBe('Hello world');
+  });
+
+  it('merges tool-call fragments by index across choices', async () => {
+    const chunk = (choices: object[]) => `data: ${JSON.stringify({ ...CHUNK_1, choices })}\n\n`;
+    const body = sseStream([
+      chunk([{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '' } }] }, finish_reason: null }]),
+      chunk([{ index: 1, delta: { content: 'other' }, finish_reason: null }]),
+      chunk([{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"loc' } }, { index: 1, id: 'call_b', function: { name: 'now', arguments: '{}' } }] }, finish_reason: null }]),
+      chunk([{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: 'ation":"Austin"}' } }] }, finish_reason: 'tool_calls' }]),
+      chunk([{ index: 1, delta: {}, finish_reason: 'stop' }]),
+      `data: [DONE]\n\n`,
+    ]);
+    mockFetch.mockResolvedValueOnce(new Response(body, { status: 200 }));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const completion = await client.chat.completions.create({
+      model: 'm', messages: [{ role: 'user', content: 'x' }], stream: true,
+    }).finalChatCompletion();
+
+    expect(completion.choices).toHaveLength(2);
+    expect(completion.choices[0].finish_reason).toBe('tool_calls');
+    expect(completion.choices[0].message.tool_calls).toEqual([
+      { id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '{"location":"Austin"}' } },
+      { id: 'call_b', type: 'function', function: { name: 'now', arguments: '{}' } },
+    ]);
+    expect(completion.choices[1].message.content).toBe('other');
+    expect(completion.usage).toBeUndefined();
+  });
+
+  it('merges logprobs, refusals and system_fingerprint, and yields the usage-only chunk', async () => {
+    const usage = { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 };
+    const lp = (token: string) => ({ token, logprob: -0.5, bytes: null, top_logprobs: [] });
+    const chunk = (extra: object) => `data: ${JSON.stringify({ ...CHUNK_1, system_fingerprint: 'fp_1', usage: null, ...extra })}\n\n`;
+    const body = sseStream([
+      chunk({ choices: [{ index: 0, delta: { role: 'assistant', content: 'Hello' }, logprobs: { content: [lp('Hello')], refusal: null }, finish_reason: null }] }),
+      chunk({ choices: [{ index: 0, delta: { content: ' world' }, logprobs: { content: [lp(' world')], refusal: null }, finish_reason: 'stop' }] }),
+      chunk({ choices: [{ index: 1, delta: { refusal: "I can't" }, finish_reason: null }] }),
+      chunk({ choices: [{ index: 1, delta: { refusal: ' help.' }, finish_reason: 'stop' }] }),
+      chunk({ choices: [], usage }),
+      `data: [DONE]\n\n`,
+    ]);
+    mockFetch.mockResolvedValueOnce(new Response(body, { status: 200 }));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const stream = client.chat.completions.create({
+      model: 'm', messages: [{ role: 'user', content: 'x' }], stream: true,
+      n: 2, logprobs: true, seed: 7, stream_options: { include_usage: true },
+    });
+    const chunks = [];
+    for await (const c of stream) chunks.push(c);
+    const completion = await stream.finalChatCompletion();
+
+    expect(chunks.at(-1)).toMatchObject({ choices: [], usage });
+    expect(completion.system_fingerprint).toBe('fp_1');
+    expect(completion.choices[0].logprobs).toEqual({ content: [lp('Hello'), lp(' world')], refusal: null });
+    expect(completion.choices[1].message).toEqual({ role: 'assistant', content: null, refusal: "I can't help." });
+    expect(completion.choices[1].logprobs).toBeUndefined();
+    expect(completion.usage).toEqual(usage);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({ n: 2, logprobs: true, seed: 7 });
+  });
+
+  it('finalChatCompletion() works after iterating and rejects a second iteration', async () => {
+    const body = sseStream([
+      `data: ${JSON.stringify(CHUNK_1)}\n\n`,
+      `data: ${JSON.stringify(CHUNK_2)}\n\n`,
+      `data: [DONE]\n\n`,
+    ]);
+    mockFetch.mockResolvedValueOnce(new Response(body, { status: 200 }));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const stream = client.chat.completions.create({
+      model: 'm', messages: [{ role: 'user', content: 'x' }], stream: true,
+    });
+    for await (const _ of stream) { /* drain */ }
+
+    expect(await stream.finalContent()).toBe('Hello world');
+    expect(() => stream[Symbol.asyncIterator]()).toThrow(/already been consumed/);
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
   it('throws WaterlightError on non-OK streaming response', async () => {
     mockFetch.mockResolvedValueOnce(new Response('Server Error', { status: 500 }));
 
-    const client = new Waterlight({ apiKey: 'k' });
+    const client = new Waterlight({ apiKey: 'k', maxRetries: 0 });
     const stream = client.chat.completions.create({
       model: 'm',
       messages: [{ role: 'user', content: 'x' }],
@@ -572,6 +918,114 @@ describe('Streaming', () => {
   });
 });
 
+describe('Streaming timeouts', () => {
+  /** SSE body that emits `count` chunks, `gap` ms apart. */
+  function slowBody(count: number, gap: number): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let sent = 0;
+    return new ReadableStream({
+      async pull(controller) {
+        await new Promise(r => setTimeout(r, gap));
+        if (sent++ < count) {
+          const chunk = { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'm', choices: [{ index: 0, delta: { content: '.' }, finish_reason: null }] };
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+        } else {
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        }
+      },
+    });
+  }
+
+  it('keeps a long stream alive while tokens keep flowing', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(slowBody(6, 20), { status: 200 }));
+    // Each gap is under idleTimeout, but the stream as a whole outlasts it
+    const client = new Waterlight({ apiKey: 'k', timeout: 60, idleTimeout: 60 });
+
+    const text = await client.chat.completions.create({ model: 'm', messages: [], stream: true }).finalContent();
+    expect(text).toBe('......');
+  });
+
+  it('aborts with a 408 when the stream goes idle', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(slowBody(3, 200), { status: 200 }));
+    const client = new Waterlight({ apiKey: 'k', idleTimeout: 50 });
+
+    const stream = client.chat.completions.create({ model: 'm', messages: [], stream: true });
+    await expect(stream.finalChatCompletion()).rejects.toThrow(/idle/);
+  });
+
+  it('enforces totalTimeout even while tokens are flowing', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(slowBody(50, 10), { status: 200 }));
+    const client = new Waterlight({ apiKey: 'k' });
+
+    const stream = client.chat.completions.create(
+      { model: 'm', messages: [], stream: true },
+      { totalTimeout: 80 },
+    );
+    try {
+      await stream.finalChatCompletion();
+      expect.unreachable('should have thrown');
+    } catch (e: any) {
+      expect(e).toBeInstanceOf(APIError);
+      expect(e.status).toBe(408);
+      expect(e.message).toMatch(/total timeout/);
+    }
+  });
+});
+
+describe('Streaming retries and errors', () => {
+  const DONE_BODY = () => sseStream([
+    `data: ${JSON.stringify({ id: 'c', object: 'chat.completion.chunk', created: 0, model: 'm', choices: [{ index: 0, delta: { content: 'ok' }, finish_reason: 'stop' }] })}\n\n`,
+    `data: [DONE]\n\n`,
+  ]);
+
+  it('retries a 429 before the first byte, honouring Retry-After', async () => {
+    const client = new Waterlight({ apiKey: 'k', maxRetries: 2 });
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(429, { error: 'rl' }, { 'retry-after': '0.01' }))
+      .mockResolvedValueOnce(errorResponse(503, {}, { 'retry-after': '0.01' }))
+      .mockResolvedValueOnce(new Response(DONE_BODY(), { status: 200 }));
+
+    const text = await client.chat.completions.create({
+      model: 'm', messages: [], stream: true,
+    }).finalContent();
+
+    expect(text).toBe('ok');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch.mock.calls[2][1].headers['Accept']).toBe('text/event-stream');
+  });
+
+  it('raises RateLimitError with retryAfter and requestId once retries are exhausted', async () => {
+    const client = new Waterlight({ apiKey: 'k', maxRetries: 0 });
+    mockFetch.mockResolvedValueOnce(
+      errorResponse(429, { error: { message: 'slow down' } }, { 'retry-after': '7', 'x-request-id': 'req-s1' }),
+    );
+
+    const stream = client.chat.completions.create({ model: 'm', messages: [], stream: true });
+    try {
+      await stream.finalChatCompletion();
+      expect.unreachable('should have thrown');
+    } catch (e: any) {
+      expect(e).toBeInstanceOf(RateLimitError);
+      expect(e.message).toBe('slow down');
+      expect(e.retryAfter).toBe(7);
+      expect(e.requestId).toBe('req-s1');
+    }
+  });
+
+  it.each([
+    [401, AuthenticationError],
+    [402, InsufficientCreditsError],
+  ])('maps %i to the same error class as non-streaming calls', async (status, ErrorClass) => {
+    const client = new Waterlight({ apiKey: 'k', maxRetries: 3 });
+    mockFetch.mockResolvedValueOnce(errorResponse(status, { error: { message: 'no' } }));
+
+    const stream = client.chat.completions.create({ model: 'm', messages: [], stream: true });
+    await expect(stream.finalChatCompletion()).rejects.toThrow(ErrorClass);
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+});
+
 // ===========================================================================
 // 8. Error classes
 // ===========================================================================
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { audioPart, contentText, detectMimeType, imagePart, textPart, toDataURL } from '../content';
+import { countMessageTokens } from '../tokens';
+import { Waterlight } from '../client';
+import type { ClientEvent } from '../logging';
+import { WaterlightError } from '../errors';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+const MP3 = new Uint8Array([0x49, 0x44, 0x33, 4, 0, 0, 0, 0]);
+const WAV = new Uint8Array([...Buffer.from('RIFF'), 0, 0, 0, 0, ...Buffer.from('WAVEfmt ')]);
+
+describe('media helpers', () => {
+  it('detects image and audio types from their leading bytes', () => {
+    expect(detectMimeType(PNG)).toBe('image/png');
+    expect(detectMimeType(JPEG)).toBe('image/jpeg');
+    expect(detectMimeType(Buffer.from('GIF89a'))).toBe('image/gif');
+    expect(detectMimeType(new Uint8Array([...Buffer.from('RIFF'), 0, 0, 0, 0, ...Buffer.from('WEBPVP8 ')]))).toBe('image/webp');
+    expect(detectMimeType(WAV)).toBe('audio/wav');
+    expect(detectMimeType(MP3)).toBe('audio/mpeg');
+    expect(detectMimeType(new Uint8Array([0xff, 0xfb, 0x90, 0]))).toBe('audio/mpeg');
+    expect(detectMimeType(Buffer.from('plain text'))).toBeUndefined();
+  });
+
+  it('builds image parts from files, bytes and Blobs', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'waterlight-content-'));
+    try {
+      // Content wins over a misleading extension.
+      await writeFile(join(dir, 'photo.jpg'), PNG);
+      const fromFile = await imagePart(join(dir, 'photo.jpg'), { detail: 'low' });
+      expect(fromFile).toEqual({
+        type: 'image_url',
+        image_url: { url: `data:image/png;base64,${Buffer.from(PNG).toString('base64')}`, detail: 'low' },
+      });
+
+      // Unrecognised bytes fall back to the extension.
+      await writeFile(join(dir, 'odd.webp'), Buffer.from('????'));
+      expect((await imagePart(join(dir, 'odd.webp'))).image_url.url).toMatch(/^data:image\/webp;base64,/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    expect((await imagePart(JPEG.buffer)).image_url.url).toMatch(/^data:image\/jpeg;base64,/);
+    expect((await imagePart(new Blob([Buffer.from('????')], { type: 'image/gif' }))).image_url.url).toMatch(/^data:image\/gif;/);
+    expect(await imagePart('https://example.com/cat.png')).toEqual({ type: 'image_url', image_url: { url: 'https://example.com/cat.png' } });
+  });
+
+  it('enforces size limits and supported types', async () => {
+    await expect(imagePart(PNG, { maxBytes: 4 })).rejects.toThrow(/11 bytes, over the 4-byte limit/);
+    await expect(imagePart(new Blob([PNG]), { maxBytes: 4 })).rejects.toThrow(WaterlightError);
+    await expect(imagePart(MP3)).rejects.toThrow(/Unsupported image type audio\/mpeg/);
+    await expect(imagePart(Buffer.from('????'))).rejects.toThrow(/pass mimeType/);
+    await expect(toDataURL(Buffer.from('????'), { mimeType: 'image/png' })).resolves.toBe('data:image/png;base64,Pz8/Pw==');
+    await expect(audioPart(PNG)).rejects.toThrow(/Unsupported audio type image\/png/);
+  });
+
+  it('builds audio parts as raw base64 with a format', async () => {
+    expect(await audioPart(MP3)).toEqual({ type: 'input_audio', input_audio: { data: Buffer.from(MP3).toString('base64'), format: 'mp3' } });
+    expect((await audioPart(WAV)).input_audio.format).toBe('wav');
+  });
+
+  it('extracts the text of a message', () => {
+    expect(contentText('hi')).toBe('hi');
+    expect(contentText(null)).toBe('');
+    expect(contentText([textPart('a'), { type: 'image_url', image_url: { url: 'https://x' } }, textPart('b')])).toBe('a\nb');
+  });
+});
+
+describe('multimodal messages', () => {
+  it('counts image and audio parts', () => {
+    const text = countMessageTokens([{ role: 'user', content: 'Caption' }]);
+    const image = (detail?: 'low' | 'high') => countMessageTokens([{
+      role: 'user',
+      content: [textPart('Caption'), { type: 'image_url', image_url: { url: 'https://x', detail } }],
+    }]);
+    expect(image('low') - text).toBe(85);
+    expect(image('high') - text).toBe(765);
+    const audio = countMessageTokens([{ role: 'user', content: [{ type: 'input_audio', input_audio: { data: 'A'.repeat(3200 * 4 / 3), format: 'mp3' } }] }]);
+    expect(audio - countMessageTokens([{ role: 'user', content: '' }])).toBe(2);
+  });
+
+  it('sends content parts and keeps base64 out of request events', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({
+      id: 'c', object: 'chat.completion', created: 0, model: 'm',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'A cat.' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    }), { status: 200 }));
+    const events: ClientEvent[] = [];
+    const client = new Waterlight({ apiKey: 'k', fetch, onEvent: e => events.push(e) });
+    const image = await imagePart(PNG);
+
+    const completion = await client.chat.completions.create({
+      model: 'm',
+      messages: [{ role: 'user', content: [textPart('What is this?'), image, await audioPart(MP3)] }],
+    });
+
+    const content: string | null = completion.choices[0].message.content;
+    expect(content).toBe('A cat.');
+    expect(JSON.parse((fetch.mock.calls[0] as any)[1].body).messages[0].content[1]).toEqual(image);
+    const request = events.find(e => e.type === 'request') as any;
+    expect(request.body.messages[0].content[1].image_url.url).toBe(`data:image/png;base64,[${Buffer.from(PNG).toString('base64').length} chars]`);
+    expect(request.body.messages[0].content[2].input_audio).toEqual({ data: '[12 chars]', format: 'mp3' });
+  });
+});
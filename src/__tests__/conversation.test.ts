@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Waterlight } from '../client';
+import { Conversation, fitToContext, keepLastMessages, summarizeHistory } from '../conversation';
+import { APIUserAbortError, AuthenticationError, WaterlightError } from '../errors';
+import type { Message } from '../types';
+
+function jsonResponse(body: object, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function completion(message: object, finish_reason = 'stop') {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 1700000000,
+    model: 'mist-1-turbo',
+    choices: [{ index: 0, message: { role: 'assistant', content: null, ...message }, finish_reason }],
+    usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  };
+}
+
+function sseResponse(chunks: object[]): Response {
+  const text = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function chunk(delta: object, finish_reason: string | null = null) {
+  return { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'm', choices: [{ index: 0, delta, finish_reason }] };
+}
+
+function sentMessages(call: number): Message[] {
+  return JSON.parse(mockFetch.mock.calls[call][1].body).messages;
+}
+
+let mockFetch: ReturnType<typeof vi.fn>;
+let client: Waterlight;
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  vi.stubGlobal('fetch', mockFetch);
+  client = new Waterlight({ apiKey: 'test-key', maxRetries: 0 });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Conversation', () => {
+  it('sends the system prompt and history and appends each reply', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(completion({ content: '2' })))
+      .mockResolvedValueOnce(jsonResponse(completion({ content: '3' })));
+    const chat = new Conversation(client, { model: 'mist-1-turbo', system: 'Be terse.', temperature: 0 });
+
+    await chat.send('Name a prime.');
+    const reply = await chat.send('Another?');
+
+    expect(reply.choices[0].message.content).toBe('3');
+    expect(sentMessages(1)).toEqual([
+      { role: 'system', content: 'Be terse.' },
+      { role: 'user', content: 'Name a prime.' },
+      { role: 'assistant', content: '2' },
+      { role: 'user', content: 'Another?' },
+    ]);
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toMatchObject({ model: 'mist-1-turbo', temperature: 0, stream: false });
+    expect(chat.messages).toHaveLength(5);
+    expect(chat.lastReply?.content).toBe('3');
+  });
+
+  it('leaves the history unchanged when a turn fails', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: { message: 'bad key' } }, 401));
+    const chat = new Conversation(client, { model: 'm', system: 'sys' });
+
+    await expect(chat.send('hi')).rejects.toThrow(AuthenticationError);
+    expect(chat.messages).toEqual([{ role: 'system', content: 'sys' }]);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse(completion({ content: 'ok' })));
+    await chat.send('hi');
+    expect(chat.messages).toHaveLength(3);
+  });
+
+  it('rejects a second turn while one is in flight', async () => {
+    let release!: (r: Response) => void;
+    mockFetch.mockReturnValueOnce(new Promise<Response>(r => { release = r; }));
+    const chat = new Conversation(client, { model: 'm' });
+
+    const first = chat.send('one');
+    await expect(chat.send('two')).rejects.toThrow(/in flight/);
+    release(jsonResponse(completion({ content: 'ok' })));
+    await first;
+    expect(chat.messages.map(m => m.content)).toEqual(['one', 'ok']);
+  });
+
+  it('appends a streamed reply once the stream is consumed', async () => {
+    mockFetch.mockResolvedValueOnce(sseResponse([
+      chunk({ role: 'assistant', content: 'Hel' }),
+      chunk({ content: 'lo' }, 'stop'),
+    ]));
+    const chat = new Conversation(client, { model: 'm' });
+
+    const stream = await chat.stream('hi');
+    let text = '';
+    for await (const c of stream) text += c.choices[0]?.delta?.content ?? '';
+
+    expect(text).toBe('Hello');
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+    await Promise.resolve();
+    expect(chat.messages).toEqual([{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'Hello' }]);
+  });
+
+  it('rolls back a streamed turn when the stream is aborted unread', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(completion({ content: 'ok' })));
+    const chat = new Conversation(client, { model: 'm' });
+
+    const stream = await chat.stream('hi');
+    await expect(chat.send('again')).rejects.toThrow('already has a request in flight');
+    stream.abort();
+    await expect(stream.finalChatCompletion()).rejects.toThrow(APIUserAbortError);
+    await chat.send('again');
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(chat.messages).toEqual([{ role: 'user', content: 'again' }, { role: 'assistant', content: 'ok' }]);
+  });
+
+  it('records tool calls and continues after addToolResult()', async () => {
+    const call = { id: 'call_1', type: 'function', function: { name: 'get_time', arguments: '{}' } };
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(completion({ tool_calls: [call] }, 'tool_calls')))
+      .mockResolvedValueOnce(jsonResponse(completion({ content: 'It is noon.' })));
+    const chat = new Conversation(client, { model: 'm' });
+
+    await chat.send('What time is it?');
+    expect(chat.lastReply?.tool_calls).toEqual([call]);
+
+    chat.addToolResult('call_1', { time: '12:00' });
+    await chat.send();
+
+    expect(sentMessages(1).slice(1)).toEqual([
+      { role: 'assistant', content: null, tool_calls: [call] },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"time":"12:00"}' },
+    ]);
+    expect(chat.lastReply?.content).toBe('It is noon.');
+  });
+
+  it('appends the whole transcript of runTools()', async () => {
+    const call = { id: 'call_1', type: 'function', function: { name: 'add', arguments: '{"a":1,"b":2}' } };
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(completion({ tool_calls: [call] }, 'tool_calls')))
+      .mockResolvedValueOnce(jsonResponse(completion({ content: '3' })));
+    const chat = new Conversation(client, { model: 'm' });
+
+    const result = await chat.runTools('1+2?', {
+      tools: [{ type: 'function', function: { name: 'add' }, handler: ({ a, b }) => a + b }],
+    });
+
+    expect(result.stoppedBy).toBe('stop');
+    expect(chat.messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(chat.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: '3' });
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).not.toHaveProperty('maxIterations');
+  });
+
+  it('round-trips through JSON', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(completion({ content: 'ok' })));
+    const chat = new Conversation(client, { model: 'mist-1-turbo', system: 'sys', max_tokens: 50 });
+    await chat.send('hi');
+
+    const restored = Conversation.fromJSON(client, JSON.stringify(chat));
+    expect(restored.messages).toEqual(chat.messages);
+    mockFetch.mockResolvedValueOnce(jsonResponse(completion({ content: 'again' })));
+    await restored.send('more');
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toMatchObject({ model: 'mist-1-turbo', max_tokens: 50 });
+    expect(sentMessages(1)).toHaveLength(4);
+  });
+
+  it('rejects invalid saved state', () => {
+    expect(() => Conversation.fromJSON(client, '{"version":2}')).toThrow(WaterlightError);
+  });
+
+  it('applies the truncation strategy before each request and keeps the result', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse(completion({ content: 'ok' })));
+    const chat = new Conversation(client, { model: 'm', system: 'sys', truncation: keepLastMessages(2) });
+
+    await chat.send('one');
+    await chat.send('two');
+
+    expect(sentMessages(1).map(m => m.content)).toEqual(['sys', 'ok', 'two']);
+    expect(chat.messages.map(m => m.content)).toEqual(['sys', 'ok', 'two', 'ok']);
+  });
+});
+
+describe('truncation strategies', () => {
+  const context = () => ({ client, params: { model: 'm' } });
+
+  it('keepLastMessages does not start the history with orphaned tool results', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: 'q' },
+      { role: 'assistant', content: null, tool_calls: [{ id: 'a', type: 'function', function: { name: 'f', arguments: '{}' } }] },
+      { role: 'tool', tool_call_id: 'a', content: 'r' },
+      { role: 'assistant', content: 'done' },
+    ];
+    expect(keepLastMessages(2)(messages, context())).toEqual([messages[0], messages[4]]);
+  });
+
+  it('fitToContext uses the request max_tokens', () => {
+    const long = Array.from({ length: 100 }, () => 'word').join(' ');
+    const messages: Message[] = [{ role: 'user', content: long }, { role: 'user', content: 'latest' }];
+    const strategy = fitToContext({ contextWindow: 100 });
+    expect(strategy(messages, context())).toEqual(messages.slice(1));
+    expect(() => strategy(messages.slice(1), { client, params: { model: 'm', max_tokens: 200 } })).toThrow(WaterlightError);
+  });
+
+  it('fitToContext prefers max_completion_tokens and reserves it once whatever n is', () => {
+    const messages: Message[] = [{ role: 'user', content: 'latest' }];
+    const strategy = fitToContext({ contextWindow: 100 });
+    const fit = (params: object) => strategy(messages, { client, params: { model: 'm', ...params } });
+    expect(fit({ max_completion_tokens: 50, max_tokens: 200 })).toEqual(messages);
+    expect(() => fit({ max_completion_tokens: 200, max_tokens: 50 })).toThrow(WaterlightError);
+    expect(fit({ max_completion_tokens: 40, n: 3 })).toEqual(messages);
+  });
+
+  it('summarizeHistory replaces older messages with a summary', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(completion({ content: 'User asked about primes.' })));
+    const long = Array.from({ length: 50 }, () => 'word').join(' ');
+    const messages: Message[] = [
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: long },
+      { role: 'assistant', content: long },
+      { role: 'user', content: 'latest' },
+    ];
+    const strategy = summarizeHistory({ maxTokens: 60, keepLast: 1, model: 'mist-1-mini' });
+
+    const result = await strategy(messages, context());
+
+    expect(result).toEqual([
+      { role: 'system', content: 'sys' },
+      { role: 'system', content: 'Summary of the earlier conversation:\nUser asked about primes.' },
+      { role: 'user', content: 'latest' },
+    ]);
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.model).toBe('mist-1-mini');
+    expect(body.messages[1].content).toContain(`user: ${long}`);
+
+    // Under the threshold nothing is sent.
+    expect(await strategy(result, context())).toBe(result);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Waterlight } from '../client';
+import { decodeEmbedding } from '../embeddings';
+import { APIError, APIUserAbortError } from '../errors';
+
+function jsonResponse(body: object, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function toBase64(values: number[]): string {
+  return Buffer.from(new Float32Array(values).buffer).toString('base64');
+}
+
+/** Answers each request with one vector per input: [length of input, position in batch]. */
+function embedHandler(format: 'float' | 'base64' = 'float') {
+  return async (_url: string, init: RequestInit) => {
+    const { input } = JSON.parse(init.body as string);
+    return jsonResponse({
+      object: 'list',
+      model: 'mist-embed',
+      data: input.map((text: string, i: number) => ({
+        object: 'embedding',
+        index: i,
+        embedding: format === 'base64' ? toBase64([text.length, i]) : [text.length, i],
+      })),
+      usage: { prompt_tokens: input.length, total_tokens: input.length },
+    });
+  };
+}
+
+let mockFetch: ReturnType<typeof vi.fn>;
+let client: Waterlight;
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  vi.stubGlobal('fetch', mockFetch);
+  client = new Waterlight({ apiKey: 'test-key', maxRetries: 0 });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('decodeEmbedding', () => {
+  it('decodes little-endian float32 base64', () => {
+    expect(Array.from(decodeEmbedding(toBase64([0.5, -2, 3.25])))).toEqual([0.5, -2, 3.25]);
+    expect(decodeEmbedding('')).toHaveLength(0);
+  });
+});
+
+describe('embeddings.create', () => {
+  it('decodes base64 vectors into Float32Array', async () => {
+    mockFetch.mockImplementation(embedHandler('base64'));
+
+    const res = await client.embeddings.create({ input: ['abc'], encoding_format: 'base64' });
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).encoding_format).toBe('base64');
+    expect(res.data[0].embedding).toBeInstanceOf(Float32Array);
+    expect(Array.from(res.data[0].embedding)).toEqual([3, 0]);
+  });
+
+  it('leaves float vectors as arrays', async () => {
+    mockFetch.mockImplementation(embedHandler());
+    const res = await client.embeddings.create({ input: ['abc'] });
+    expect(res.data[0].embedding).toEqual([3, 0]);
+  });
+});
+
+describe('embeddings.createMany', () => {
+  const input = Array.from({ length: 10 }, (_, i) => 'x'.repeat(i + 1));
+
+  it('splits into batches and returns results in input order with summed usage', async () => {
+    mockFetch.mockImplementation(embedHandler());
+    const progress: number[] = [];
+
+    const res = await client.embeddings.createMany({
+      input,
+      model: 'mist-embed',
+      batchSize: 3,
+      concurrency: 2,
+      onProgress: done => progress.push(done),
+    });
+
+    expect(mockFetch.mock.calls.map(c => JSON.parse(c[1].body).input.length)).toEqual([3, 3, 3, 1]);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).model).toBe('mist-embed');
+    expect(res.data.map(d => d.index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(res.data.map(d => d.embedding[0])).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(res.usage).toEqual({ prompt_tokens: 10, completion_tokens: 0, total_tokens: 10 });
+    expect(res.model).toBe('mist-embed');
+    expect(progress[progress.length - 1]).toBe(10);
+  });
+
+  it('keeps order when batches finish out of order', async () => {
+    const handler = embedHandler();
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      const { input: batch } = JSON.parse(init.body as string);
+      // Earlier batches (shorter inputs) finish last.
+      await new Promise(r => setTimeout(r, 30 - batch[0].length * 3));
+      return handler(url, init);
+    });
+
+    const res = await client.embeddings.createMany({ input, batchSize: 2, concurrency: 5 });
+
+    expect(res.data.map(d => d.embedding[0])).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('never runs more than `concurrency` requests at once', async () => {
+    let active = 0;
+    let peak = 0;
+    const handler = embedHandler();
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      peak = Math.max(peak, ++active);
+      await new Promise(r => setTimeout(r, 5));
+      active--;
+      return handler(url, init);
+    });
+
+    await client.embeddings.createMany({ input, batchSize: 1, concurrency: 3 });
+
+    expect(mockFetch).toHaveBeenCalledTimes(10);
+    expect(peak).toBe(3);
+  });
+
+  it('starts a new batch when the token limit would be exceeded', async () => {
+    mockFetch.mockImplementation(embedHandler());
+    const words = ['one two three', 'four', 'five six', 'seven'];
+
+    await client.embeddings.createMany({ input: words, maxBatchTokens: 3 });
+
+    expect(mockFetch.mock.calls.map(c => JSON.parse(c[1].body).input)).toEqual([
+      ['one two three'], ['four', 'five six'], ['seven'],
+    ]);
+  });
+
+  it('decodes base64 batches', async () => {
+    mockFetch.mockImplementation(embedHandler('base64'));
+    const res = await client.embeddings.createMany({ input: ['a', 'bb'], batchSize: 1, encoding_format: 'base64' });
+    expect(res.data.map(d => d.embedding)).toEqual([new Float32Array([1, 0]), new Float32Array([2, 0])]);
+  });
+
+  it('rejects with the first failure and aborts the rest', async () => {
+    const signals: AbortSignal[] = [];
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+      signals.push(init.signal!);
+      if (signals.length === 1) return Promise.resolve(jsonResponse({ error: { message: 'too long' } }, 400));
+      return new Promise((_, reject) => init.signal!.addEventListener('abort', () => reject(init.signal!.reason)));
+    });
+
+    const err = await client.embeddings.createMany({ input, batchSize: 1, concurrency: 3 }).catch(e => e);
+    expect(err).toBeInstanceOf(APIError);
+    expect(err).toMatchObject({ status: 400, message: 'too long' });
+    expect(signals.length).toBeLessThanOrEqual(3);
+    expect(signals.slice(1).every(s => s.aborted)).toBe(true);
+  });
+
+  it('honours the caller signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(client.embeddings.createMany({ input }, { signal: controller.signal })).rejects.toThrow(APIUserAbortError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FailoverRouter } from '../failover';
+import { Waterlight } from '../client';
+import type { ClientEvent } from '../logging';
+import { APIError, AuthenticationError, CircuitOpenError, RateLimitError, WaterlightError } from '../errors';
+
+function jsonResponse(body: object, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const completion = (model: string) => ({
+  id: 'c', object: 'chat.completion', created: 0, model,
+  choices: [{ index: 0, message: { role: 'assistant', content: `from ${model}` }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+});
+
+const PRIMARY = 'https://api.test';
+const BACKUP = 'https://backup.test';
+const PARAMS = { model: 'mist-1-turbo', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+/** Fetch that fails with `status` for each "<host> <model>" in `down` and answers everything else. */
+function fakeAPI(down: Record<string, number>) {
+  return vi.fn(async (url: string, init: any) => {
+    const { model } = JSON.parse(init.body);
+    const status = down[`${new URL(url).host} ${model}`];
+    return status ? jsonResponse({ error: { message: `down (${status})` } }, status) : jsonResponse(completion(model));
+  });
+}
+
+const tried = (fetch: ReturnType<typeof fakeAPI>) =>
+  fetch.mock.calls.map(([url, init]: any) => `${new URL(url).host} ${JSON.parse(init.body).model}`);
+
+describe('FailoverRouter', () => {
+  it('opens a circuit after repeated failures and admits one trial after the cooldown', async () => {
+    let now = 0;
+    const router = new FailoverRouter({ failureThreshold: 2, cooldown: 1000 }, PRIMARY, () => now);
+    const fail = async () => { throw new APIError('down', 503); };
+
+    await expect(router.run('m', [], fail)).rejects.toThrow('down');
+    expect(router.health()).toEqual([{ model: 'm', baseUrl: PRIMARY, state: 'closed', consecutiveFailures: 1 }]);
+    await expect(router.run('m', [], fail)).rejects.toThrow('down');
+    expect(router.health()[0]).toMatchObject({ state: 'open', retryAt: 1000 });
+
+    now = 400;
+    const skipped = vi.fn(fail);
+    const err = await router.run('m', [], skipped).catch(e => e);
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect(err.retryAfter).toBe(1);
+    expect(skipped).not.toHaveBeenCalled();
+
+    // After the cooldown one trial goes through while others are still turned away.
+    now = 1000;
+    let release!: (v: string) => void;
+    const trial = router.run('m', [], () => new Promise<string>(r => { release = r; }));
+    await expect(router.run('m', [], async () => 'second')).rejects.toThrow(CircuitOpenError);
+    expect(router.health()[0].state).toBe('half_open');
+    release('ok');
+    await expect(trial).resolves.toMatchObject({ value: 'ok', route: { model: 'm', baseUrl: PRIMARY, failed: [] } });
+    expect(router.health()).toEqual([]);
+  });
+
+  it('only fails over on transient errors', async () => {
+    const router = new FailoverRouter({ models: ['b'] }, PRIMARY);
+    const seen: string[] = [];
+    const send = (error: WaterlightError) => async ({ model }: { model: string }) => {
+      seen.push(model);
+      if (model === 'a') throw error;
+      return model;
+    };
+
+    for (const error of [new APIError('5xx', 502), new APIError('timeout', 408), new APIError('network', 0), new RateLimitError('slow')]) {
+      await expect(router.run('a', undefined, send(error))).resolves.toMatchObject({ value: 'b' });
+      router.reset();
+    }
+    await expect(router.run('a', undefined, send(new AuthenticationError('bad key')))).rejects.toThrow(AuthenticationError);
+    await expect(router.run('a', undefined, send(new APIError('bad request', 400)))).rejects.toThrow('bad request');
+    expect(seen.slice(-2)).toEqual(['a', 'a']);
+  });
+});
+
+describe('client failover', () => {
+  it('tries each endpoint, then each fallback model, and reports the route', async () => {
+    const fetch = fakeAPI({ 'api.test mist-1-turbo': 503, 'backup.test mist-1-turbo': 500 });
+    const events: ClientEvent[] = [];
+    const client = new Waterlight({
+      apiKey: 'k', baseUrl: PRIMARY, fetch, maxRetries: 0, onEvent: e => events.push(e),
+      failover: { baseUrls: [`${BACKUP}/`], models: ['mist-1', 'mist-1-mini'] },
+    });
+
+    const result = await client.chat.completions.create(PARAMS);
+
+    expect(result.choices[0].message.content).toBe('from mist-1');
+    expect(tried(fetch)).toEqual(['api.test mist-1-turbo', 'backup.test mist-1-turbo', 'api.test mist-1']);
+    expect(result.route).toMatchObject({
+      model: 'mist-1',
+      baseUrl: PRIMARY,
+      failed: [
+        { model: 'mist-1-turbo', baseUrl: PRIMARY, error: { status: 503 } },
+        { model: 'mist-1-turbo', baseUrl: BACKUP, error: { status: 500 } },
+      ],
+    });
+    expect(events.filter(e => e.type === 'failover')).toMatchObject([
+      { model: 'mist-1-turbo', baseUrl: PRIMARY, status: 503, attempt: 0 },
+      { model: 'mist-1-turbo', baseUrl: BACKUP, status: 500, attempt: 1 },
+    ]);
+  });
+
+  it('takes per-request fallback models and throws the last error when all fail', async () => {
+    const fetch = fakeAPI({ 'api.test mist-1-turbo': 503, 'api.test mist-2': 502 });
+    const client = new Waterlight({ apiKey: 'k', baseUrl: PRIMARY, fetch, maxRetries: 0, failover: { models: ['mist-1'] } });
+
+    const err = await client.chat.completions.create(PARAMS, { fallbackModels: ['mist-2'] }).catch(e => e);
+    expect(err).toMatchObject({ status: 502 });
+    await expect(client.chat.completions.create(PARAMS, { fallbackModels: [] })).rejects.toMatchObject({ status: 503 });
+    expect(tried(fetch)).toEqual(['api.test mist-1-turbo', 'api.test mist-2', 'api.test mist-1-turbo']);
+  });
+
+  it('skips a target with an open circuit until its cooldown passes', async () => {
+    const fetch = fakeAPI({ 'api.test mist-1-turbo': 503 });
+    const client = new Waterlight({
+      apiKey: 'k', baseUrl: PRIMARY, fetch, maxRetries: 0,
+      failover: { baseUrls: [BACKUP], failureThreshold: 1, cooldown: 60_000 },
+    });
+
+    await client.chat.completions.create(PARAMS);
+    const second = await client.chat.completions.create(PARAMS);
+
+    expect(second.route).toEqual({ model: 'mist-1-turbo', baseUrl: BACKUP, failed: [] });
+    expect(tried(fetch)).toEqual(['api.test mist-1-turbo', 'backup.test mist-1-turbo', 'backup.test mist-1-turbo']);
+    expect(client.failover!.health()).toMatchObject([{ baseUrl: PRIMARY, state: 'open', consecutiveFailures: 1 }]);
+  });
+
+  it('fails over a stream before its first chunk', async () => {
+    const chunk = { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'mist-1', choices: [{ index: 0, delta: { content: 'hi' }, finish_reason: 'stop' }] };
+    const fetch = vi.fn(async (_url: string, init: any) => JSON.parse(init.body).model === 'mist-1'
+      ? new Response(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, { status: 200 })
+      : jsonResponse({ error: { message: 'overloaded' } }, 503));
+    const client = new Waterlight({ apiKey: 'k', baseUrl: PRIMARY, fetch, maxRetries: 0, failover: { models: ['mist-1'] } });
+
+    const stream = client.chat.completions.create({ ...PARAMS, stream: true });
+
+    expect(await stream.finalContent()).toBe('hi');
+    expect(stream.route).toMatchObject({ model: 'mist-1', failed: [{ model: 'mist-1-turbo' }] });
+  });
+
+  it('refuses plain-HTTP fallback endpoints', () => {
+    expect(() => new Waterlight({ apiKey: 'k', failover: { baseUrls: ['http://backup.test'] } })).toThrow(/must use HTTPS/);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Waterlight } from '../client';
+import type { ClientEvent, Logger } from '../logging';
+
+function jsonResponse(body: object, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+const COMPLETION = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'm',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'hi' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+};
+
+function memoryLogger(): Logger & { lines: [string, string][] } {
+  const lines: [string, string][] = [];
+  return {
+    lines,
+    debug: msg => lines.push(['debug', msg]),
+    info: msg => lines.push(['info', msg]),
+    warn: msg => lines.push(['warn', msg]),
+    error: msg => lines.push(['error', msg]),
+  };
+}
+
+afterEach(() => {
+  delete process.env.WATERLIGHT_LOG;
+  vi.useRealTimers();
+});
+
+describe('Logging and events', () => {
+  it('emits request, retry and response events with attempt, status, request id and usage', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({}, 503, { 'x-request-id': 'req-1' }))
+      .mockResolvedValueOnce(jsonResponse(COMPLETION, 200, { 'x-request-id': 'req-2' }));
+    const events: ClientEvent[] = [];
+    const client = new Waterlight({ apiKey: 'wl-secret-key', fetch, onEvent: e => events.push(e) });
+
+    vi.useFakeTimers();
+    const promise = client.chat.completions.create({ model: 'm', messages: [{ role: 'user', content: 'hello' }] });
+    await vi.advanceTimersByTimeAsync(500);
+    await promise;
+
+    expect(events.map(e => `${e.type}:${e.attempt}`)).toEqual(['request:0', 'retry:0', 'request:1', 'response:1']);
+    const retry = events[1] as Extract<ClientEvent, { type: 'retry' }>;
+    expect(retry).toMatchObject({ status: 503, delayMs: 500, requestId: 'req-1' });
+    const response = events[3] as Extract<ClientEvent, { type: 'response' }>;
+    expect(response).toMatchObject({ status: 200, requestId: 'req-2', usage: COMPLETION.usage, path: '/v1/chat/completions' });
+    expect(response.latencyMs).toBeGreaterThanOrEqual(500);
+  });
+
+  it('never exposes the API key', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(COMPLETION));
+    const events: ClientEvent[] = [];
+    const logger = memoryLogger();
+    const client = new Waterlight({
+      apiKey: 'wl-secret-key', fetch, logger, logLevel: 'debug', onEvent: e => events.push(e),
+      defaultHeaders: { 'X-Echo': 'wl-secret-key' },
+    });
+
+    await client.chat.completions.create({ model: 'm', messages: [{ role: 'user', content: 'my key is wl-secret-key' }] });
+
+    const request = events[0] as Extract<ClientEvent, { type: 'request' }>;
+    expect(request.headers['Authorization']).toBe('[REDACTED]');
+    expect(JSON.stringify(events)).not.toContain('wl-secret-key');
+    expect(JSON.stringify(logger.lines)).not.toContain('wl-secret-key');
+  });
+
+  it('optionally redacts message content', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(COMPLETION));
+    const events: ClientEvent[] = [];
+    const client = new Waterlight({ apiKey: 'k', fetch, redactContent: true, onEvent: e => events.push(e) });
+
+    await client.chat.completions.create({ model: 'm', messages: [{ role: 'user', content: 'private' }] });
+
+    const request = events[0] as Extract<ClientEvent, { type: 'request' }>;
+    expect(request.body).toMatchObject({ model: 'm', messages: [{ role: 'user', content: '[REDACTED]' }] });
+    // the request itself is untouched
+    expect(JSON.parse(fetch.mock.calls[0][1].body).messages[0].content).toBe('private');
+  });
+
+  it('emits an error event for the final failure', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ error: { message: 'bad key' } }, 401, { 'x-request-id': 'req-x' }));
+    const events: ClientEvent[] = [];
+    const client = new Waterlight({ apiKey: 'k', fetch, onEvent: e => events.push(e) });
+
+    await expect(client.models.list()).rejects.toThrow('bad key');
+    expect(events.at(-1)).toMatchObject({ type: 'error', status: 401, requestId: 'req-x', path: '/v1/models' });
+  });
+
+  it('reports streamed time-to-first-chunk and end with usage', async () => {
+    const chunk = { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'm', choices: [{ index: 0, delta: { content: 'x' }, finish_reason: null }] };
+    const usage = { prompt_tokens: 2, completion_tokens: 2, total_tokens: 4 };
+    const body = [chunk, chunk, { ...chunk, choices: [], usage }].map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+    const fetch = vi.fn().mockResolvedValue(new Response(body, { status: 200, headers: { 'x-request-id': 'req-s' } }));
+    const events: ClientEvent[] = [];
+    const client = new Waterlight({ apiKey: 'k', fetch, onEvent: e => events.push(e) });
+
+    await client.chat.completions.create({ model: 'm', messages: [], stream: true }).finalChatCompletion();
+
+    expect(events.map(e => e.type)).toEqual(['request', 'response', 'stream.first_chunk', 'stream.end']);
+    expect(events[2]).toMatchObject({ requestId: 'req-s', path: '/v1/chat/completions' });
+    expect(events[3]).toMatchObject({ chunks: 3, usage, requestId: 'req-s' });
+  });
+
+  it('logs at or above the configured level, taken from WATERLIGHT_LOG by default', async () => {
+    process.env.WATERLIGHT_LOG = 'info';
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ object: 'list', data: [] }));
+    const logger = memoryLogger();
+    const client = new Waterlight({ apiKey: 'k', fetch, logger });
+
+    await client.models.list();
+    expect(logger.lines).toHaveLength(1);
+    expect(logger.lines[0][0]).toBe('info');
+    expect(logger.lines[0][1]).toMatch(/^waterlight response GET \/v1\/models 200 in \d+ms$/);
+  });
+
+  it('is silent by default and survives a throwing event handler', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ object: 'list', data: [] }));
+    const logger = memoryLogger();
+    const client = new Waterlight({ apiKey: 'k', fetch, logger, onEvent: () => { throw new Error('tracer down'); } });
+
+    await expect(client.models.list()).resolves.toEqual({ object: 'list', data: [] });
+    expect(logger.lines).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Waterlight } from '../client';
+import { APIError, WaterlightError } from '../errors';
+import type { Middleware } from '../middleware';
+
+function jsonResponse(body: object, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const MODELS = { object: 'list', data: [] };
+
+describe('Middleware', () => {
+  it('runs in registration order around the request and sees the response', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(MODELS));
+    const log: string[] = [];
+    const tag = (name: string): Middleware => async (req, next) => {
+      log.push(`${name}>`);
+      const res = await next(req);
+      log.push(`<${name} ${res.status}`);
+      return res;
+    };
+    const client = new Waterlight({ apiKey: 'k', fetch, middleware: [tag('a')] }).use(tag('b'));
+
+    await client.models.list();
+    expect(log).toEqual(['a>', 'b>', '<b 200', '<a 200']);
+  });
+
+  it('can mutate headers, url and body before sending', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ object: 'list', data: [], model: 'e', usage: {} }));
+    const client = new Waterlight({ apiKey: 'k', baseUrl: 'https://api.test', fetch });
+    client.use(async (req, next) => {
+      expect(req.path).toBe('/v1/embeddings');
+      req.headers['X-Tenant'] = 'acme';
+      req.url += '?region=eu';
+      req.body = { ...req.body, model: 'forced-model' };
+      return next(req);
+    });
+
+    await client.embeddings.create({ input: 'hi' });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.test/v1/embeddings?region=eu');
+    expect(init.headers['X-Tenant']).toBe('acme');
+    expect(JSON.parse(init.body)).toEqual({ input: 'hi', model: 'forced-model' });
+  });
+
+  it('can short-circuit with its own Response', async () => {
+    const fetch = vi.fn();
+    const client = new Waterlight({ apiKey: 'k', fetch });
+    client.use(async () => jsonResponse({ object: 'list', data: [{ id: 'cached' }] }));
+
+    const result = await client.models.list();
+    expect(result.data[0].id).toBe('cached');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('can make its own retry decisions by calling next again', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'conflict' }, 409))
+      .mockResolvedValueOnce(jsonResponse(MODELS));
+    const client = new Waterlight({ apiKey: 'k', fetch, maxRetries: 0 });
+    client.use(async (req, next) => {
+      const res = await next(req);
+      return res.status === 409 ? next(req) : res;
+    });
+
+    await expect(client.models.list()).resolves.toEqual(MODELS);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs once per attempt of the built-in retry loop', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse(MODELS));
+    const attempts: number[] = [];
+    const client = new Waterlight({ apiKey: 'k', fetch, maxRetries: 1 });
+    client.use(async (req, next) => {
+      attempts.push(req.attempt);
+      req.headers['X-Signed-At'] = String(req.attempt);
+      return next(req);
+    });
+
+    vi.useFakeTimers();
+    const promise = client.models.list();
+    await vi.advanceTimersByTimeAsync(500);
+    await promise;
+    vi.useRealTimers();
+
+    expect(attempts).toEqual([0, 1]);
+    expect(fetch.mock.calls[1][1].headers['X-Signed-At']).toBe('1');
+  });
+
+  it('sees and can recover from errors thrown further down the chain', async () => {
+    const fetch = vi.fn().mockRejectedValue(new TypeError('socket hang up'));
+    const client = new Waterlight({ apiKey: 'k', fetch });
+    const seen: unknown[] = [];
+    client.use(async (req, next) => {
+      try {
+        return await next(req);
+      } catch (e) {
+        seen.push(e);
+        return jsonResponse(MODELS);
+      }
+    });
+
+    await expect(client.models.list()).resolves.toEqual(MODELS);
+    expect(seen[0]).toBeInstanceOf(TypeError);
+  });
+
+  it('surfaces a thrown WaterlightError unchanged', async () => {
+    const client = new Waterlight({ apiKey: 'k', fetch: vi.fn() });
+    client.use(async () => { throw new WaterlightError('blocked by policy'); });
+
+    const err = await client.models.list().catch(e => e);
+    expect(err).toBeInstanceOf(WaterlightError);
+    expect(err).not.toBeInstanceOf(APIError);
+    expect(err.message).toBe('blocked by policy');
+  });
+
+  it('applies to streaming requests', async () => {
+    const body = `data: ${JSON.stringify({ id: 'c', object: 'chat.completion.chunk', created: 0, model: 'm', choices: [{ index: 0, delta: { content: 'hi' }, finish_reason: 'stop' }] })}\n\ndata: [DONE]\n\n`;
+    const fetch = vi.fn().mockResolvedValue(new Response(body, { status: 200 }));
+    const client = new Waterlight({ apiKey: 'k', fetch });
+    const seen: string[] = [];
+    client.use(async (req, next) => {
+      seen.push(req.headers['Accept']);
+      req.headers['X-Tenant'] = 'acme';
+      return next(req);
+    });
+
+    const text = await client.chat.completions.create({ model: 'm', messages: [], stream: true }).finalContent();
+    expect(text).toBe('hi');
+    expect(seen).toEqual(['text/event-stream']);
+    expect(fetch.mock.calls[0][1].headers['X-Tenant']).toBe('acme');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { Waterlight } from '../client';
+import { MockServer } from '../mock-server';
+import { APIError, AuthenticationError, RateLimitError } from '../errors';
+
+const messages = [{ role: 'user' as const, content: 'Hello there' }];
+
+let server: MockServer;
+let client: Waterlight;
+
+beforeAll(async () => {
+  server = await new MockServer().start();
+  client = new Waterlight({ apiKey: 'test-key', baseUrl: server.url, maxRetries: 2 });
+});
+
+afterEach(() => {
+  server.reset();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('MockServer', () => {
+  it('serves a default chat completion and records the request', async () => {
+    const completion = await client.chat.completions.create({ model: 'mist-1-turbo', messages });
+
+    expect(completion.choices[0].message.content).toBe('Mock reply to: Hello there');
+    expect(completion.usage.total_tokens).toBe(completion.usage.prompt_tokens + completion.usage.completion_tokens);
+    const request = server.lastRequest('/v1/chat/completions')!;
+    expect(request.method).toBe('POST');
+    expect(request.headers.authorization).toBe('Bearer test-key');
+    expect(request.body).toMatchObject({ model: 'mist-1-turbo', messages, stream: false });
+  });
+
+  it('answers from queued replies first, then from routes', async () => {
+    server
+      .enqueue('/v1/chat/completions', { content: 'first' })
+      .route('/v1/chat/completions', req => ({ content: `routed ${req.body.model}` }));
+
+    const a = await client.chat.completions.create({ model: 'm', messages });
+    const b = await client.chat.completions.create({ model: 'm', messages });
+
+    expect(a.choices[0].message.content).toBe('first');
+    expect(b.choices[0].message.content).toBe('routed m');
+  });
+
+  it('streams content word by word over SSE', async () => {
+    server.enqueue('/v1/chat/completions', { content: 'one two three', usage: { prompt_tokens: 3, completion_tokens: 3 } });
+
+    const stream = client.chat.completions.create({
+      model: 'm', messages, stream: true, stream_options: { include_usage: true },
+    } as any);
+    const deltas: string[] = [];
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) deltas.push(content);
+    }
+
+    expect(deltas).toEqual(['one ', 'two ', 'three']);
+    expect((await stream.finalChatCompletion()).usage).toEqual({ prompt_tokens: 3, completion_tokens: 3, total_tokens: 6 });
+  });
+
+  it('streams tool calls in fragments', async () => {
+    const call = { id: 'call_1', type: 'function' as const, function: { name: 'get_weather', arguments: '{"city":"Austin"}' } };
+    server.enqueue('/v1/chat/completions', { toolCalls: [call] });
+
+    const final = await client.chat.completions.create({ model: 'm', messages, stream: true }).finalChatCompletion();
+
+    expect(final.choices[0].message.tool_calls).toEqual([call]);
+    expect(final.choices[0].finish_reason).toBe('tool_calls');
+  });
+
+  it('injects 429 with Retry-After and 5xx, which the client retries', async () => {
+    server.enqueue('/v1/chat/completions', { status: 429, retryAfter: 0 }, { status: 503 }, { content: 'finally' });
+    const retrying = new Waterlight({ apiKey: 'test-key', baseUrl: server.url, maxRetries: 2 });
+
+    const started = Date.now();
+    const completion = await retrying.chat.completions.create({ model: 'm', messages });
+
+    expect(completion.choices[0].message.content).toBe('finally');
+    expect(server.requestsTo('/v1/chat/completions')).toHaveLength(3);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900); // 0s Retry-After, then 1s backoff
+  });
+
+  it('surfaces errors once retries run out', async () => {
+    server.enqueue('/v1/chat/completions', { status: 429, retryAfter: 0, message: 'slow down' });
+    const noRetry = new Waterlight({ apiKey: 'test-key', baseUrl: server.url, maxRetries: 0 });
+
+    const err = await noRetry.chat.completions.create({ model: 'm', messages }).catch(e => e);
+
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect(err.message).toContain('slow down');
+    expect(err.requestId).toMatch(/^req_mock_/);
+  });
+
+  it('can stall a stream to exercise idle timeouts', async () => {
+    server.enqueue('/v1/chat/completions', { content: 'a b c d', stallAfter: 2 });
+    const impatient = new Waterlight({ apiKey: 'test-key', baseUrl: server.url, idleTimeout: 100 });
+
+    const stream = impatient.chat.completions.create({ model: 'm', messages, stream: true });
+    const received: string[] = [];
+    const err = await (async () => {
+      for await (const chunk of stream) received.push(chunk.choices[0]?.delta?.content ?? '');
+    })().catch(e => e);
+
+    expect(err).toBeInstanceOf(APIError);
+    expect(err.message).toMatch(/idle/);
+    expect(received).toHaveLength(2);
+  });
+
+  it('can send malformed chunks and error frames', async () => {
+    server.enqueue('/v1/chat/completions', { content: 'a b', malformedAfter: 1 }, { content: 'a b', streamError: 429 });
+
+    const malformed = await client.chat.completions.create({ model: 'm', messages, stream: true }).finalChatCompletion().catch(e => e);
+    const errorFrame = await client.chat.completions.create({ model: 'm', messages, stream: true }).finalChatCompletion().catch(e => e);
+
+    expect(malformed.message).toMatch(/Malformed stream chunk/);
+    expect(errorFrame).toBeInstanceOf(RateLimitError);
+  });
+
+  it('serves deterministic embeddings, models and billing', async () => {
+    const floats = await client.embeddings.create({ input: ['a', 'b', 'a'] });
+    const base64 = await client.embeddings.create({ input: ['a'], encoding_format: 'base64' });
+    const models = await client.models.list();
+    const billing = await client.billing.get();
+
+    expect(floats.data).toHaveLength(3);
+    expect(floats.data[0].embedding).toHaveLength(8);
+    expect(floats.data[0].embedding).toEqual(floats.data[2].embedding);
+    expect(floats.data[0].embedding).not.toEqual(floats.data[1].embedding);
+    expect(Array.from(base64.data[0].embedding)).toEqual(floats.data[0].embedding);
+    expect(models.data.map(m => m.id)).toEqual(['mist-1-turbo', 'mist-embed']);
+    expect(billing).toMatchObject({ plan: 'mock', rpm_limit: 600 });
+  });
+
+  it('rejects requests with the wrong API key when one is required', async () => {
+    const strict = await new MockServer({ apiKey: 'right' }).start();
+    try {
+      const wrong = new Waterlight({ apiKey: 'wrong', baseUrl: strict.url });
+      await expect(wrong.models.list()).rejects.toThrow(AuthenticationError);
+      const right = new Waterlight({ apiKey: 'right', baseUrl: strict.url });
+      await expect(right.models.list()).resolves.toMatchObject({ object: 'list' });
+    } finally {
+      await strict.close();
+    }
+  });
+});
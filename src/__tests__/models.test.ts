@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ModelRegistry } from '../models';
+import { Waterlight } from '../client';
+import { MockServer } from '../mock-server';
+import { ModelValidationError } from '../errors';
+import { imagePart } from '../content';
+
+function jsonResponse(body: object, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const MODELS = {
+  object: 'list',
+  data: [
+    {
+      id: 'mist-1-turbo', object: 'model', created: 0, owned_by: 'waterlight', context_window: 128_000,
+      capabilities: { tools: true, vision: true, json_mode: true }, pricing: { input: 0.5, output: 1.5 },
+    },
+    { id: 'mist-1-mini', object: 'model', created: 0, owned_by: 'waterlight', capabilities: { tools: false, vision: false } },
+    // No metadata at all, as older servers send.
+    { id: 'legacy', object: 'model', created: 0, owned_by: 'waterlight' },
+  ],
+};
+
+const COMPLETION = {
+  id: 'c', object: 'chat.completion', created: 0, model: 'mist-1-turbo',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+};
+
+const TOOL = { type: 'function' as const, function: { name: 'f' } };
+
+function fakeAPI(billing: object = {}, models: () => Response = () => jsonResponse(MODELS)) {
+  return vi.fn(async (url: string) => {
+    const { pathname } = new URL(url);
+    if (pathname === '/v1/models') return models();
+    if (pathname === '/v1/billing') return jsonResponse(billing);
+    return jsonResponse(COMPLETION);
+  });
+}
+
+const paths = (fetch: ReturnType<typeof fakeAPI>) => fetch.mock.calls.map(c => new URL(c[0]).pathname);
+
+describe('ModelRegistry', () => {
+  it('reuses the model list until the TTL passes or it is cleared', async () => {
+    let now = 0;
+    const load = vi.fn(async () => MODELS as any);
+    const registry = new ModelRegistry({ ttl: 1000 }, load, undefined, () => now);
+
+    await registry.list();
+    now = 999;
+    expect((await registry.get('mist-1-turbo'))?.context_window).toBe(128_000);
+    expect(load).toHaveBeenCalledTimes(1);
+    now = 1000;
+    await registry.list();
+    registry.clear();
+    expect(await registry.get('nope')).toBeUndefined();
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('client model registry', () => {
+  it('retrieves a single model with its metadata', async () => {
+    const fetch = vi.fn(async () => jsonResponse(MODELS.data[0]));
+    const client = new Waterlight({ apiKey: 'k', baseUrl: 'https://api.test', fetch });
+
+    const model = await client.models.retrieve('ft:mist-1/acme');
+
+    expect((fetch.mock.calls[0] as any)[0]).toBe('https://api.test/v1/models/ft%3Amist-1%2Facme');
+    expect(model.capabilities?.tools).toBe(true);
+    expect(model.pricing).toEqual({ input: 0.5, output: 1.5 });
+  });
+
+  it('caches models.list() but only validates when asked to', async () => {
+    const fetch = fakeAPI();
+    const client = new Waterlight({ apiKey: 'k', fetch, modelRegistry: true });
+
+    await client.models.list();
+    await client.models.list();
+    await client.chat.completions.create({ model: 'unlisted', messages: [{ role: 'user', content: 'x' }] });
+
+    expect(paths(fetch)).toEqual(['/v1/models', '/v1/chat/completions']);
+  });
+
+  it('rejects unknown models and unsupported features without sending', async () => {
+    const fetch = fakeAPI();
+    const client = new Waterlight({ apiKey: 'k', fetch, modelRegistry: { validate: true } });
+    const chat = (params: object) => client.chat.completions.create({ model: 'mist-1-mini', messages: [{ role: 'user', content: 'x' }], ...params });
+
+    const unknown = await chat({ model: 'mist-9' }).catch(e => e);
+    expect(unknown).toBeInstanceOf(ModelValidationError);
+    expect(unknown).toMatchObject({ model: 'mist-9', reason: 'unknown_model' });
+    await expect(chat({ tools: [TOOL] })).rejects.toMatchObject({ reason: 'unsupported_feature', feature: 'tools' });
+    const image = await imagePart('https://example.com/cat.png');
+    await expect(chat({ messages: [{ role: 'user', content: [image] }] })).rejects.toThrow('Model mist-1-mini does not support image input');
+    expect(paths(fetch)).toEqual(['/v1/billing', '/v1/models']);
+
+    // Capabilities a server doesn't report are assumed to be there.
+    await chat({ model: 'legacy', tools: [TOOL], response_format: { type: 'json_object' } });
+    await chat({ model: 'mist-1-turbo', tools: [TOOL] });
+    await client.embeddings.create({ input: 'x' });
+    expect(paths(fetch).slice(2)).toEqual(['/v1/chat/completions', '/v1/chat/completions', '/v1/embeddings']);
+  });
+
+  it("enforces the account's allowed_models", async () => {
+    const fetch = fakeAPI({ allowed_models: ['mist-1-mini'] });
+    const client = new Waterlight({ apiKey: 'k', fetch, modelRegistry: { validate: true } });
+
+    await expect(client.chat.completions.create({ model: 'mist-1-turbo', messages: [] }))
+      .rejects.toMatchObject({ reason: 'not_allowed', message: "Model mist-1-turbo is not in this account's allowed models" });
+    await client.chat.completions.create({ model: 'mist-1-mini', messages: [] });
+    expect(paths(fetch).filter(p => p === '/v1/chat/completions')).toHaveLength(1);
+  });
+
+  it('lets requests through while the model list cannot be fetched', async () => {
+    const fetch = fakeAPI({}, () => jsonResponse({ error: { message: 'no such endpoint' } }, 404));
+    const client = new Waterlight({ apiKey: 'k', fetch, modelRegistry: { validate: true } });
+
+    await client.chat.completions.create({ model: 'anything', messages: [] });
+    await client.chat.completions.create({ model: 'anything', messages: [] });
+
+    // The failed fetch is not retried until the TTL passes.
+    expect(paths(fetch)).toEqual(['/v1/billing', '/v1/models', '/v1/chat/completions', '/v1/chat/completions']);
+  });
+
+  it('serves model metadata from the mock server', async () => {
+    const server = new MockServer({ models: ['mist-embed', { id: 'mist-1-turbo', capabilities: { tools: false } }] });
+    await server.start();
+    try {
+      const client = new Waterlight({ apiKey: 'k', baseUrl: server.url, maxRetries: 0, modelRegistry: { validate: true } });
+      expect(await client.models.retrieve('mist-1-turbo')).toMatchObject({ id: 'mist-1-turbo', object: 'model', capabilities: { tools: false } });
+      await expect(client.models.retrieve('nope')).rejects.toThrow(/No mock/);
+      await expect(client.chat.completions.create({ model: 'mist-1-turbo', messages: [], tools: [TOOL] }))
+        .rejects.toThrow(ModelValidationError);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RateLimiter, estimateRequestTokens } from '../ratelimit';
+import { Waterlight } from '../client';
+import { APIUserAbortError } from '../errors';
+
+function jsonResponse(body: object, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+const COMPLETION = {
+  id: 'c', object: 'chat.completion', created: 0, model: 'm',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 },
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RateLimiter', () => {
+  it('admits up to rpm immediately, then spaces requests at the refill rate', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ rpm: 2 });
+    const admitted: number[] = [];
+    for (let i = 0; i < 3; i++) limiter.acquire(0).then(() => admitted.push(i));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(admitted).toEqual([0, 1]);
+    expect(limiter.pending).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(admitted).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(admitted).toEqual([0, 1, 2]);
+  });
+
+  it('queues in FIFO order so a large request is not starved', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ tpm: 1000 });
+    const order: string[] = [];
+    await limiter.acquire(900);
+    limiter.acquire(600).then(() => order.push('big'));
+    limiter.acquire(10).then(() => order.push('small'));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual([]); // small waits behind big even though it would fit
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(order).toEqual(['big']);
+    await vi.advanceTimersByTimeAsync(600);
+    expect(order).toEqual(['big', 'small']);
+  });
+
+  it('reconcile refunds over-estimates and charges under-estimates', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ tpm: 1000 });
+    const reservation = await limiter.acquire(1000);
+    let admitted = false;
+    limiter.acquire(500).then(() => { admitted = true; });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(admitted).toBe(false);
+
+    reservation.reconcile(200);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(admitted).toBe(true);
+    reservation.reconcile(5000); // only the first reconcile counts
+  });
+
+  it('clamps requests larger than the whole bucket instead of waiting forever', async () => {
+    const limiter = new RateLimiter({ tpm: 100 });
+    await expect(limiter.acquire(10_000)).resolves.toBeDefined();
+  });
+
+  it('tightens from x-ratelimit headers', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter();
+    limiter.updateFromHeaders(new Headers({
+      'x-ratelimit-limit-requests': '60',
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-limit-tokens': '10000',
+    }));
+    expect(limiter.rpm).toBe(60);
+    expect(limiter.tpm).toBe(10_000);
+
+    let admitted = false;
+    limiter.acquire(1).then(() => { admitted = true; });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(admitted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(admitted).toBe(true);
+  });
+
+  it('never raises explicit limits from headers or configure()', () => {
+    const limiter = new RateLimiter({ rpm: 2 });
+    limiter.updateFromHeaders(new Headers({ 'x-ratelimit-limit-requests': '600', 'x-ratelimit-limit-tokens': '10000' }));
+    expect(limiter.rpm).toBe(2);
+    expect(limiter.tpm).toBe(10_000);
+    limiter.configure({ rpm: 1 });
+    expect(limiter.rpm).toBe(1);
+    limiter.configure({ rpm: 600 });
+    expect(limiter.rpm).toBe(2);
+  });
+
+  it('rejects a queued request when its signal aborts', async () => {
+    const limiter = new RateLimiter({ rpm: 1 });
+    await limiter.acquire(0);
+    const controller = new AbortController();
+    const waiting = limiter.acquire(0, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow(APIUserAbortError);
+    expect(limiter.pending).toBe(0);
+  });
+});
+
+describe('estimateRequestTokens', () => {
+  it('counts ~4 characters per token plus the completion budget', () => {
+    const body = { messages: [{ role: 'user', content: 'x'.repeat(400) }], max_tokens: 50 };
+    const estimate = estimateRequestTokens(body);
+    expect(estimate).toBeGreaterThan(150);
+    expect(estimate).toBeLessThan(200);
+  });
+});
+
+describe('Waterlight rateLimit option', () => {
+  it('holds requests over the rpm limit until capacity returns', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn().mockImplementation(async () => jsonResponse({ object: 'list', data: [] }));
+    const client = new Waterlight({ apiKey: 'k', fetch, rateLimit: { rpm: 1 } });
+
+    const first = client.models.list();
+    const second = client.models.list();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await Promise.all([first, second]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps an explicit rpm when the server reports a higher limit', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn().mockImplementation(async () => jsonResponse({ object: 'list', data: [] }, {
+      'x-ratelimit-limit-requests': '600',
+      'x-ratelimit-remaining-requests': '599',
+    }));
+    const client = new Waterlight({ apiKey: 'k', fetch, rateLimit: { rpm: 2 } });
+
+    const lists = [client.models.list(), client.models.list(), client.models.list()];
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(client.rateLimiter!.rpm).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    await Promise.all(lists);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('reconciles the estimate with reported usage', async () => {
+    const fetch = vi.fn().mockImplementation(async () => jsonResponse(COMPLETION));
+    const client = new Waterlight({ apiKey: 'k', fetch, rateLimit: { tpm: 10_000 } });
+
+    await client.chat.completions.create({ model: 'm', messages: [{ role: 'user', content: 'hi' }], max_tokens: 4000 });
+    // 4000+ tokens were reserved up front; only the 10 actually used stay charged
+    expect((client.rateLimiter as any).tokens.level).toBeGreaterThan(9_980);
+  });
+
+  it('auto-configures limits from billing before the first request', async () => {
+    const fetch = vi.fn().mockImplementation(async (url: string) => url.endsWith('/v1/billing')
+      ? jsonResponse({ plan: 'free', rpm_limit: 3, tpm_limit: 4000 })
+      : jsonResponse({ object: 'list', data: [] }));
+    const client = new Waterlight({ apiKey: 'k', fetch, rateLimit: { auto: true } });
+
+    await client.models.list();
+    await client.models.list();
+    expect(fetch.mock.calls.map(c => new URL(c[0]).pathname)).toEqual(['/v1/billing', '/v1/models', '/v1/models']);
+    expect(client.rateLimiter!.rpm).toBe(3);
+    expect(client.rateLimiter!.tpm).toBe(4000);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { validateSchema } from '../schema';
+
+const PERSON = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    role: { enum: ['admin', 'user'] },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    nickname: { type: ['string', 'null'] },
+  },
+  required: ['name', 'age'],
+  additionalProperties: false,
+};
+
+describe('validateSchema', () => {
+  it('accepts a conforming value', () => {
+    expect(validateSchema(PERSON, { name: 'Ada', age: 36, role: 'admin', tags: ['x'], nickname: null })).toEqual([]);
+  });
+
+  it('reports missing, extra and mistyped properties with paths', () => {
+    expect(validateSchema(PERSON, { age: 1.5, extra: true })).toEqual([
+      '$.name: is required',
+      '$.age: expected integer, got number',
+      '$.extra: is not allowed',
+    ]);
+  });
+
+  it('checks enum, bounds and array items', () => {
+    expect(validateSchema(PERSON, { name: '', age: -1, role: 'root', tags: ['a', 2, 'c'] })).toEqual([
+      '$.name: must be at least 1 characters',
+      '$.age: must be >= 0',
+      '$.role: must be one of ["admin","user"]',
+      '$.tags: must have at most 2 items',
+      '$.tags[1]: expected string, got number',
+    ]);
+  });
+
+  it('supports anyOf, oneOf and const', () => {
+    const schema = { anyOf: [{ type: 'string' }, { type: 'object', properties: { kind: { const: 'x' } }, required: ['kind'] }] };
+    expect(validateSchema(schema, 'ok')).toEqual([]);
+    expect(validateSchema(schema, { kind: 'x' })).toEqual([]);
+    expect(validateSchema(schema, { kind: 'y' })).toEqual(['$: does not match any allowed schema']);
+    expect(validateSchema({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 3)).toEqual([
+      '$: must match exactly one schema (matched 2)',
+    ]);
+  });
+
+  it('ignores unknown keywords and treats an empty schema as "anything"', () => {
+    expect(validateSchema({ format: 'email', 'x-custom': 1 }, 'not an email')).toEqual([]);
+    expect(validateSchema({}, { anything: [1, 2] })).toEqual([]);
+  });
+});
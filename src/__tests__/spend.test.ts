@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SpendGuard } from '../spend';
+import { Waterlight } from '../client';
+import type { BillingInfo } from '../client';
+import { APIUserAbortError, SpendLimitError } from '../errors';
+
+function jsonResponse(body: object, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function sseResponse(chunks: object[]): Response {
+  const text = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const COMPLETION = {
+  id: 'c', object: 'chat.completion', created: 0, model: 'mist-1-turbo',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+};
+
+const BILLING: BillingInfo = {
+  plan: 'pro', billing_mode: 'prepaid', spent_usd: 0, total_requests: 0, total_tokens: 0, rpm_limit: 600, tpm_limit: 100_000,
+};
+
+// $1 per 1M input tokens and $2 per 1M output tokens: COMPLETION costs $0.002.
+const PRICES = { 'mist-1': { input: 1, output: 2 } };
+const PARAMS = { model: 'mist-1-turbo', messages: [{ role: 'user' as const, content: 'Hi' }], max_tokens: 500 };
+
+describe('SpendGuard', () => {
+  it('prices models by exact id, longest prefix, then the wildcard', () => {
+    const guard = new SpendGuard({
+      prices: { 'mist-1': { input: 1 }, 'mist-1-turbo': { input: 2, output: 4 }, '*': { input: 10 } },
+    });
+    expect(guard.priceFor('mist-1-turbo-0409')).toEqual({ input: 2, output: 4 });
+    expect(guard.priceFor('mist-1-mini')).toEqual({ input: 1 });
+    expect(guard.priceFor('other')).toEqual({ input: 10 });
+    expect(guard.cost('mist-1-mini', { prompt_tokens: 1_000_000, completion_tokens: 1_000_000 })).toBe(2);
+    expect(new SpendGuard().cost('any', { prompt_tokens: 1e9 })).toBe(0);
+  });
+
+  it('estimates chat from the prompt plus max_tokens per choice, or the default', () => {
+    const guard = new SpendGuard({ prices: { '*': { input: 0, output: 1_000_000 } }, defaultMaxTokens: 100 });
+    expect(guard.estimate({ model: 'm', messages: [], max_tokens: 7 })).toBe(7);
+    expect(guard.estimate({ model: 'm', messages: [], max_completion_tokens: 3, max_tokens: 7 })).toBe(3);
+    expect(guard.estimate({ model: 'm', messages: [] })).toBe(100);
+    expect(guard.estimate({ model: 'm', messages: [], max_tokens: 7, n: 3 })).toBe(21);
+    const embeddings = new SpendGuard({ prices: { '*': { input: 1_000_000 } } });
+    expect(embeddings.estimate({ input: ['hello', 'world'] })).toBe(2);
+  });
+
+  it('only waits for the first billing fetch and refreshes in the background', async () => {
+    let now = 0;
+    const load = vi.fn(async () => ({ ...BILLING, remaining_usd: 1 }));
+    const guard = new SpendGuard({ refreshInterval: 1000 }, load, () => now);
+
+    await guard.reserve('/v1/embeddings', { input: 'x' });
+    expect(guard.account?.remaining_usd).toBe(1);
+    now = 999;
+    await guard.reserve('/v1/embeddings', { input: 'x' });
+    expect(load).toHaveBeenCalledTimes(1);
+    now = 1000;
+    await guard.reserve('/v1/embeddings', { input: 'x' });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes requests to endpoints that are not billed', async () => {
+    const guard = new SpendGuard({ budget: 0 });
+    await expect(guard.reserve('/v1/models')).resolves.toBeUndefined();
+    await expect(guard.reserve('/v1/embeddings', { input: 'x' })).rejects.toThrow(SpendLimitError);
+  });
+});
+
+describe('client spend guard', () => {
+  it('charges actual usage and refuses requests over the budget without sending them', async () => {
+    const fetch = vi.fn(async () => jsonResponse(COMPLETION));
+    const client = new Waterlight({ apiKey: 'k', fetch, spendGuard: { prices: PRICES, budget: 0.005, checkAccount: false } });
+
+    await client.chat.completions.create(PARAMS);
+    await client.chat.completions.create(PARAMS);
+    expect(client.spendGuard!.spent).toBeCloseTo(0.004);
+
+    const err = await client.chat.completions.create(PARAMS).catch(e => e);
+    expect(err).toBeInstanceOf(SpendLimitError);
+    expect(err.limit).toBe('budget');
+    expect(err.estimatedCost).toBeGreaterThan(0.001);
+    expect(err.remaining).toBeCloseTo(0.001);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(client.spendGuard!.remaining).toBeCloseTo(0.001);
+  });
+
+  it('refunds the estimate of a failed request', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ error: { message: 'bad' } }, 400));
+    const client = new Waterlight({ apiKey: 'k', fetch, spendGuard: { prices: PRICES, budget: 1, checkAccount: false } });
+
+    await expect(client.chat.completions.create(PARAMS)).rejects.toThrow('bad');
+    expect(client.spendGuard!.spent).toBe(0);
+  });
+
+  it('refunds the estimate of a request aborted while rate limited', async () => {
+    const fetch = vi.fn(async () => jsonResponse(COMPLETION));
+    const client = new Waterlight({
+      apiKey: 'k', fetch, rateLimit: { rpm: 1 }, spendGuard: { prices: PRICES, budget: 1, checkAccount: false },
+    });
+    await client.chat.completions.create(PARAMS);
+
+    const controller = new AbortController();
+    const queued = client.chat.completions.create(PARAMS, { signal: controller.signal });
+    await vi.waitFor(() => expect(client.rateLimiter!.pending).toBe(1));
+    expect(client.spendGuard!.spent).toBeGreaterThan(0.0025);
+    controller.abort();
+
+    await expect(queued).rejects.toThrow(APIUserAbortError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(client.spendGuard!.spent).toBeCloseTo(0.002, 6);
+  });
+
+  it('counts in-flight estimates against the budget', async () => {
+    const pending: (() => void)[] = [];
+    const fetch = vi.fn(() => new Promise<Response>(resolve => pending.push(() => resolve(jsonResponse(COMPLETION)))));
+    // Output tokens only, so each request is estimated at exactly $0.001: two fit, a third does not.
+    const client = new Waterlight({ apiKey: 'k', fetch, spendGuard: { prices: { '*': { input: 0, output: 2 } }, budget: 0.002, checkAccount: false } });
+
+    const inFlight = [client.chat.completions.create(PARAMS), client.chat.completions.create(PARAMS)];
+    await expect(client.chat.completions.create(PARAMS)).rejects.toThrow(SpendLimitError);
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+    pending.forEach(release => release());
+    await Promise.all(inFlight);
+    expect(client.spendGuard!.spent).toBeCloseTo(0.002);
+  });
+
+  it('settles streams from the usage in their final chunk', async () => {
+    const chunk = { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'mist-1-turbo' };
+    const fetch = vi.fn(async () => sseResponse([
+      { ...chunk, choices: [{ index: 0, delta: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }] },
+      { ...chunk, choices: [], usage: COMPLETION.usage },
+    ]));
+    const client = new Waterlight({ apiKey: 'k', fetch, spendGuard: { prices: PRICES, checkAccount: false } });
+
+    const stream = client.chat.completions.create({ ...PARAMS, stream: true, max_tokens: 100_000 });
+    await stream.finalChatCompletion();
+
+    expect(client.spendGuard!.spent).toBeCloseTo(0.002);
+  });
+
+  it('enforces the account balance and daily limit from billing', async () => {
+    const fetch = vi.fn(async (url: string) => jsonResponse(
+      url.endsWith('/v1/billing') ? { ...BILLING, remaining_usd: 0.003, daily_limit: 10, daily_used: 8 } : COMPLETION,
+    ));
+    const client = new Waterlight({ apiKey: 'k', fetch, spendGuard: { prices: PRICES } });
+
+    await client.chat.completions.create(PARAMS);
+    const balance = await client.chat.completions.create(PARAMS).catch(e => e);
+    expect(balance).toMatchObject({ name: 'SpendLimitError', limit: 'balance' });
+
+    const cheap = { ...PARAMS, model: 'unpriced' };
+    await client.chat.completions.create(cheap);
+    const daily = await client.chat.completions.create(cheap).catch(e => e);
+    expect(daily).toMatchObject({ limit: 'daily', remaining: 0 });
+    expect(fetch.mock.calls.filter(([url]) => url.endsWith('/v1/billing'))).toHaveLength(1);
+  });
+
+  it('lets requests through when billing cannot be fetched', async () => {
+    const fetch = vi.fn(async (url: string) => url.endsWith('/v1/billing')
+      ? jsonResponse({ error: { message: 'forbidden' } }, 403)
+      : jsonResponse(COMPLETION));
+    const client = new Waterlight({ apiKey: 'k', fetch, spendGuard: { prices: PRICES } });
+
+    await expect(client.chat.completions.create(PARAMS)).resolves.toMatchObject({ id: 'c' });
+    expect(client.spendGuard!.account).toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { SSEDecoder } from '../sse';
+
+describe('SSEDecoder', () => {
+  it('decodes LF, CRLF and CR line endings', () => {
+    for (const eol of ['\n', '\r\n', '\r']) {
+      const decoder = new SSEDecoder();
+      const events = [...decoder.decode(`data: a${eol}${eol}data: b${eol}${eol}`), ...decoder.flush()];
+      expect(events.map(e => e.data)).toEqual(['a', 'b']);
+    }
+  });
+
+  it('holds a trailing CR until it knows whether LF follows', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.decode('data: a\r')).toEqual([]);
+    expect(decoder.decode('\n\r')).toEqual([]);
+    expect(decoder.decode('\n').map(e => e.data)).toEqual(['a']);
+  });
+
+  it('joins multi-line data fields and keeps event, id and retry', () => {
+    const [event] = new SSEDecoder().decode('event: update\nid: 7\nretry: 3000\ndata: line1\ndata:line2\n\n');
+    expect(event).toEqual({ event: 'update', data: 'line1\nline2', id: '7', retry: 3000 });
+  });
+
+  it('ignores comments, unknown fields and events without data', () => {
+    const events = new SSEDecoder().decode(': heartbeat\n\nfoo: bar\n\nevent: ping\n\ndata: x\n\n');
+    expect(events).toEqual([{ event: null, data: 'x', id: null }]);
+  });
+
+  it('carries the last event id forward', () => {
+    const events = new SSEDecoder().decode('id: 1\ndata: a\n\ndata: b\n\n');
+    expect(events.map(e => e.id)).toEqual(['1', '1']);
+  });
+
+  it('reassembles events split across arbitrary chunk boundaries', () => {
+    const decoder = new SSEDecoder();
+    const text = 'data: {"a":1}\r\n\r\ndata: {"b":2}\r\n\r\n';
+    const events = [...text].flatMap(ch => decoder.decode(ch));
+    expect(events.map(e => JSON.parse(e.data))).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('flush() dispatches an unterminated final event', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.decode('data: tail')).toEqual([]);
+    expect(decoder.pending).toBe(10);
+    expect(decoder.flush().map(e => e.data)).toEqual(['tail']);
+    expect(decoder.pending).toBe(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { countTokens, countMessageTokens, fitMessages } from '../tokens';
+import { WaterlightError } from '../errors';
+import type { Message, Tool } from '../types';
+
+const WEATHER_TOOL: Tool = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Get the current weather for a city',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+  },
+};
+
+function words(n: number): string {
+  return Array.from({ length: n }, () => 'word').join(' ');
+}
+
+describe('countTokens', () => {
+  it('counts common words as one token each', () => {
+    expect(countTokens('')).toBe(0);
+    expect(countTokens('Hello')).toBe(1);
+    expect(countTokens('the quick brown fox')).toBe(4);
+  });
+
+  it('stays close to real tokenizer counts for prose and JSON', () => {
+    // cl100k: 8 tokens and 6 tokens respectively
+    expect(countTokens('Hello, world! This is a test.')).toBeGreaterThanOrEqual(7);
+    expect(countTokens('Hello, world! This is a test.')).toBeLessThanOrEqual(10);
+    expect(countTokens('{"location":"Austin"}')).toBeGreaterThanOrEqual(5);
+    expect(countTokens('{"location":"Austin"}')).toBeLessThanOrEqual(8);
+  });
+
+  it('splits digits into groups of three and counts CJK per character', () => {
+    expect(countTokens('1234567')).toBe(3);
+    expect(countTokens('日本語')).toBe(3);
+  });
+
+  it('scales roughly linearly with length', () => {
+    expect(countTokens(words(1000))).toBe(1000);
+  });
+});
+
+describe('countMessageTokens', () => {
+  it('adds per-message overhead and reply priming', () => {
+    expect(countMessageTokens([])).toBe(3);
+    expect(countMessageTokens([{ role: 'user', content: 'Hello' }])).toBe(3 + 3 + 1);
+    expect(countMessageTokens([{ role: 'user', content: 'Hello', name: 'bob' }])).toBe(3 + 3 + 1 + 1 + 1);
+  });
+
+  it('counts tool definitions, tool calls and tool results', () => {
+    const base = countMessageTokens([{ role: 'user', content: 'Weather?' }]);
+    expect(countMessageTokens([{ role: 'user', content: 'Weather?' }], [WEATHER_TOOL])).toBeGreaterThan(base + 8);
+
+    const call: Message = {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Austin"}' } }],
+    };
+    const result: Message = { role: 'tool', tool_call_id: 'call_1', content: '{"temp":72}' };
+    expect(countMessageTokens([call])).toBeGreaterThan(countMessageTokens([{ role: 'assistant', content: null }]) + 4);
+    expect(countMessageTokens([result])).toBeGreaterThan(countMessageTokens([{ role: 'tool', content: '' }]));
+  });
+});
+
+describe('fitMessages', () => {
+  const system: Message = { role: 'system', content: 'You are helpful.' };
+
+  it('returns the messages unchanged when they fit', () => {
+    const messages: Message[] = [system, { role: 'user', content: 'Hi' }];
+    const result = fitMessages(messages, { contextWindow: 1000, maxTokens: 100 });
+    expect(result.messages).toEqual(messages);
+    expect(result.dropped).toEqual([]);
+    expect(result.truncated).toBe(false);
+    expect(result.tokens).toBe(countMessageTokens(messages));
+  });
+
+  it('drops the oldest non-system messages first and keeps system messages', () => {
+    const messages: Message[] = [
+      system,
+      { role: 'user', content: words(100) },
+      { role: 'assistant', content: words(100) },
+      { role: 'user', content: 'latest question' },
+    ];
+    const result = fitMessages(messages, { contextWindow: 150, maxTokens: 20 });
+    expect(result.messages).toEqual([system, messages[2], messages[3]]);
+    expect(result.dropped).toEqual([messages[1]]);
+    expect(result.tokens).toBeLessThanOrEqual(130);
+  });
+
+  it('drops a tool-call message together with its tool results', () => {
+    const messages: Message[] = [
+      system,
+      { role: 'user', content: 'Weather in Austin and Paris?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'a', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Austin"}' } },
+          { id: 'p', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'a', content: words(50) },
+      { role: 'tool', tool_call_id: 'p', content: words(50) },
+      { role: 'user', content: 'Thanks' },
+    ];
+    const result = fitMessages(messages, { contextWindow: 100, tools: [WEATHER_TOOL] });
+    expect(result.messages).toEqual([system, messages[5]]);
+    expect(result.dropped).toEqual(messages.slice(1, 5));
+    expect(result.messages.some(m => m.role === 'tool')).toBe(false);
+  });
+
+  it('truncates the start of the newest message when dropping is not enough', () => {
+    const messages: Message[] = [system, { role: 'user', content: `${words(200)} END` }];
+    const result = fitMessages(messages, { contextWindow: 100, maxTokens: 20 });
+    expect(result.truncated).toBe(true);
+    expect(result.messages[0]).toBe(system);
+    expect(result.messages[1].content).toMatch(/END$/);
+    expect(result.tokens).toBeLessThanOrEqual(80);
+    expect(result.tokens).toBe(countMessageTokens(result.messages));
+  });
+
+  it('throws when the kept messages cannot fit', () => {
+    const messages: Message[] = [{ role: 'system', content: words(200) }, { role: 'user', content: 'Hi' }];
+    expect(() => fitMessages(messages, { contextWindow: 100 })).toThrow(WaterlightError);
+    expect(() => fitMessages(messages, { contextWindow: 100 })).toThrow(/contextWindow 100/);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Waterlight } from '../client';
+import { AuthenticationError } from '../errors';
+import type { RunnableTool } from '../tools';
+
+function jsonResponse(body: object, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function completion(message: object, finish_reason = 'stop') {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 1700000000,
+    model: 'mist-1-turbo',
+    choices: [{ index: 0, message: { role: 'assistant', content: null, ...message }, finish_reason }],
+    usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  };
+}
+
+function toolCall(id: string, name: string, args: object | string) {
+  return { id, type: 'function', function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) } };
+}
+
+function sseResponse(chunks: object[]): Response {
+  const text = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const weatherTool: RunnableTool<{ location: string }> = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    parameters: {
+      type: 'object',
+      properties: { location: { type: 'string' } },
+      required: ['location'],
+      additionalProperties: false,
+    },
+  },
+  handler: async ({ location }) => ({ location, temp_f: 97 }),
+};
+
+let mockFetch: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  vi.stubGlobal('fetch', mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('chat.completions.runTools', () => {
+  it('executes tool calls and loops until the model answers', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(completion({ tool_calls: [toolCall('call_1', 'get_weather', { location: 'Austin' })] }, 'tool_calls')))
+      .mockResolvedValueOnce(jsonResponse(completion({ content: 'It is 97F in Austin.' })));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const runner = client.chat.completions.runTools({
+      model: 'mist-1-turbo',
+      messages: [{ role: 'user', content: 'Weather in Austin?' }],
+      tools: [weatherTool],
+    });
+
+    expect(await runner.finalContent()).toBe('It is 97F in Austin.');
+    const result = await runner.done();
+    expect(result.iterations).toBe(2);
+    expect(result.stoppedBy).toBe('stop');
+    expect(result.messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(result.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: '{"location":"Austin","temp_f":97}' });
+
+    // handlers are stripped from the wire format; the second request carries the tool result
+    const second = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(second.tools).toEqual([{ type: 'function', function: weatherTool.function }]);
+    expect(second.messages).toHaveLength(3);
+  });
+
+  it('runs parallel tool calls concurrently and preserves call order', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(completion({
+        tool_calls: [toolCall('a', 'slow', { ms: 30 }), toolCall('b', 'slow', { ms: 1 })],
+      }, 'tool_calls')))
+      .mockResolvedValueOnce(jsonResponse(completion({ content: 'done' })));
+
+    const started: string[] = [];
+    let active = 0;
+    let peak = 0;
+    const slow: RunnableTool<{ ms: number }> = {
+      type: 'function',
+      function: { name: 'slow', parameters: { type: 'object', properties: { ms: { type: 'integer' } } } },
+      handler: async ({ ms }, call) => {
+        started.push(call.id);
+        peak = Math.max(peak, ++active);
+        await new Promise(r => setTimeout(r, ms));
+        active--;
+        return call.id;
+      },
+    };
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const { messages } = await client.chat.completions.runTools({
+      model: 'm', messages: [{ role: 'user', content: 'go' }], tools: [slow],
+    }).done();
+
+    expect(peak).toBe(2);
+    expect(messages.filter(m => m.role === 'tool').map(m => m.tool_call_id)).toEqual(['a', 'b']);
+  });
+
+  it('reports invalid arguments, unknown tools and handler errors back to the model', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(completion({
+        tool_calls: [
+          toolCall('c1', 'get_weather', { city: 'Austin' }),
+          toolCall('c2', 'get_weather', '{not json'),
+          toolCall('c3', 'launch_rocket', {}),
+          toolCall('c4', 'boom', {}),
+        ],
+      }, 'tool_calls')))
+      .mockResolvedValueOnce(jsonResponse(completion({ content: 'sorry' })));
+
+    const boom: RunnableTool = {
+      type: 'function',
+      function: { name: 'boom' },
+      handler: () => { throw new Error('kaboom'); },
+    };
+    const handler = vi.fn(weatherTool.handler);
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const results: any[] = [];
+    const runner = client.chat.completions.runTools({
+      model: 'm', messages: [{ role: 'user', content: 'x' }], tools: [{ ...weatherTool, handler }, boom],
+    }).on('toolResult', r => results.push(r));
+    const { messages } = await runner.done();
+
+    expect(handler).not.toHaveBeenCalled();
+    const contents = messages.filter(m => m.role === 'tool').map(m => m.content);
+    expect(contents[0]).toMatch(/Invalid arguments.*location: is required/);
+    expect(contents[1]).toMatch(/Invalid JSON arguments/);
+    expect(contents[2]).toMatch(/Unknown tool "launch_rocket"/);
+    expect(contents[3]).toBe('Error: kaboom');
+    expect(results.every(r => r.error)).toBe(true);
+  });
+
+  it('stops at maxIterations', async () => {
+    mockFetch.mockImplementation(async () =>
+      jsonResponse(completion({ tool_calls: [toolCall('c', 'get_weather', { location: 'x' })] }, 'tool_calls')));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const result = await client.chat.completions.runTools({
+      model: 'm', messages: [{ role: 'user', content: 'x' }], tools: [weatherTool], maxIterations: 3,
+    }).done();
+
+    expect(result.stoppedBy).toBe('max_iterations');
+    expect(result.iterations).toBe(3);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('works in streaming mode and emits chunk and step events', async () => {
+    const base = { id: 's', object: 'chat.completion.chunk', created: 0, model: 'm' };
+    mockFetch
+      .mockResolvedValueOnce(sseResponse([
+        { ...base, choices: [{ index: 0, delta: { role: 'assistant', tool_calls: [{ index: 0, id: 'call_s', type: 'function', function: { name: 'get_weather', arguments: '{"loca' } }] }, finish_reason: null }] },
+        { ...base, choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: 'tion":"Austin"}' } }] }, finish_reason: 'tool_calls' }] },
+      ]))
+      .mockResolvedValueOnce(sseResponse([
+        { ...base, choices: [{ index: 0, delta: { content: 'Hot.' }, finish_reason: 'stop' }] },
+      ]));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const events: string[] = [];
+    const runner = client.chat.completions.runTools({
+      model: 'm', messages: [{ role: 'user', content: 'x' }], tools: [weatherTool], stream: true,
+    });
+    runner
+      .on('chunk', () => events.push('chunk'))
+      .on('completion', () => events.push('completion'))
+      .on('toolCall', call => events.push(`call:${call.function.arguments}`))
+      .on('end', () => events.push('end'));
+
+    expect(await runner.finalContent()).toBe('Hot.');
+    await new Promise(r => setTimeout(r, 0));
+    expect(events).toEqual([
+      'chunk', 'chunk', 'completion', 'call:{"location":"Austin"}', 'chunk', 'completion', 'end',
+    ]);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+  });
+
+  it('rejects done() and emits error when a request fails', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: { message: 'bad key' } }, 401));
+
+    const client = new Waterlight({ apiKey: 'k' });
+    const onError = vi.fn();
+    const runner = client.chat.completions.runTools({
+      model: 'm', messages: [{ role: 'user', content: 'x' }], tools: [weatherTool],
+    }).on('error', onError);
+
+    await expect(runner.done()).rejects.toThrow(AuthenticationError);
+    await new Promise(r => setTimeout(r, 0));
+    expect(onError).toHaveBeenCalledOnce();
+  });
+});
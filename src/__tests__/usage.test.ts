@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UsageTracker } from '../usage';
+import { Waterlight } from '../client';
+import type { ClientEvent } from '../logging';
+
+function jsonResponse(body: object, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function sseResponse(chunks: object[]): Response {
+  const text = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const COMPLETION = {
+  id: 'c', object: 'chat.completion', created: 0, model: 'mist-1-turbo-0409',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+};
+
+const PRICES = { 'mist-1': { input: 1, output: 2 } };
+const PARAMS = { model: 'mist-1-turbo', messages: [{ role: 'user' as const, content: 'Hi' }] };
+const HOUR = 3_600_000;
+
+describe('UsageTracker', () => {
+  it('aggregates by model and tag', () => {
+    const tracker = new UsageTracker({ prices: PRICES });
+    tracker.record({ path: '/v1/chat/completions', model: 'mist-1-turbo', tag: 'a', usage: { prompt_tokens: 10, completion_tokens: 5 }, latencyMs: 100 });
+    tracker.record({ path: '/v1/chat/completions', model: 'mist-1-turbo', tag: 'b', usage: { prompt_tokens: 20, completion_tokens: 5 }, latencyMs: 300 });
+    tracker.record({ path: '/v1/embeddings', model: 'mist-embed', usage: { prompt_tokens: 7 }, latencyMs: 50 });
+    tracker.record({ path: '/v1/chat/completions', model: 'mist-1-turbo', tag: 'a', latencyMs: 10, error: true });
+
+    const { totals, byModel, byTag } = tracker.snapshot();
+    expect(totals).toMatchObject({ requests: 4, errors: 1, prompt_tokens: 37, completion_tokens: 10, total_tokens: 47, avgLatencyMs: 115 });
+    expect(byModel['mist-1-turbo']).toMatchObject({ requests: 3, prompt_tokens: 30 });
+    expect(byModel['mist-1-turbo'].cost).toBeCloseTo((30 * 1 + 10 * 2) / 1e6);
+    expect(byModel['mist-embed'].cost).toBe(0);
+    expect(Object.keys(byTag)).toEqual(['a', 'b']);
+    expect(byTag.a).toMatchObject({ requests: 2, errors: 1, total_tokens: 15 });
+    expect(tracker.snapshot({ tag: 'b' }).totals.requests).toBe(1);
+  });
+
+  it('reports per interval, including empty ones', () => {
+    let now = 0;
+    const tracker = new UsageTracker({}, () => now);
+    for (const t of [0.5, 0.9, 2.5]) {
+      now = t * HOUR;
+      tracker.record({ path: '/v1/embeddings', model: 'e', usage: { prompt_tokens: 1 }, latencyMs: 1 });
+    }
+    now = 3 * HOUR;
+
+    const report = tracker.report(HOUR, { since: 0 });
+    expect(report.map(r => [r.since / HOUR, r.until / HOUR, r.totals.requests])).toEqual([[0, 1, 2], [1, 2, 0], [2, 3, 1]]);
+    expect(tracker.report(HOUR, { since: HOUR, until: 2 * HOUR })).toHaveLength(1);
+    expect(new UsageTracker().report(HOUR)).toEqual([]);
+    expect(() => tracker.report(0)).toThrow(RangeError);
+  });
+
+  it('exports CSV rows per period, model and tag', () => {
+    const tracker = new UsageTracker({ prices: PRICES });
+    const record = (timestamp: number, model: string, tag?: string) =>
+      tracker.record({ path: '/v1/chat/completions', model, tag, usage: { prompt_tokens: 1000, completion_tokens: 0 }, latencyMs: 20, timestamp });
+    record(0, 'mist-1-turbo', 'team, "x"');
+    record(10, 'mist-1-turbo', 'team, "x"');
+    record(HOUR + 1, 'other');
+
+    const lines = tracker.toCSV({ interval: HOUR, until: 2 * HOUR }).trim().split('\n');
+    expect(lines).toEqual([
+      'period_start,period_end,model,tag,requests,errors,prompt_tokens,completion_tokens,total_tokens,cost_usd,avg_latency_ms',
+      '1970-01-01T00:00:00.000Z,1970-01-01T01:00:00.000Z,mist-1-turbo,"team, ""x""",2,0,2000,0,2000,0.002000,20',
+      '1970-01-01T01:00:00.000Z,1970-01-01T02:00:00.000Z,other,,1,0,1000,0,1000,0.000000,20',
+    ]);
+    expect(JSON.parse(JSON.stringify(tracker)).records).toHaveLength(3);
+  });
+
+  it('keeps at most maxRecords', () => {
+    const tracker = new UsageTracker({ maxRecords: 2 });
+    for (const model of ['a', 'b', 'c']) tracker.record({ path: '/v1/embeddings', model, latencyMs: 0 });
+    expect(tracker.records.map(r => r.model)).toEqual(['b', 'c']);
+    tracker.reset();
+    expect(tracker.records).toHaveLength(0);
+  });
+});
+
+describe('client usage tracking', () => {
+  it('records chat and embeddings requests with tags, but not other endpoints', async () => {
+    const fetch = vi.fn(async (url: string) => jsonResponse(
+      url.endsWith('/v1/embeddings')
+        ? { object: 'list', model: 'mist-embed', data: [], usage: { prompt_tokens: 3, total_tokens: 3 } }
+        : url.endsWith('/v1/models') ? { object: 'list', data: [] } : COMPLETION,
+    ));
+    const client = new Waterlight({ apiKey: 'k', fetch, usage: { prices: PRICES } });
+
+    await client.chat.completions.create(PARAMS, { tag: 'search' });
+    await client.chat.completions.create({ ...PARAMS, user: 'alice' });
+    await client.embeddings.create({ input: 'x' });
+    await client.models.list();
+
+    const records = client.usage!.records;
+    expect(records.map(r => [r.path, r.model, r.tag])).toEqual([
+      ['/v1/chat/completions', 'mist-1-turbo-0409', 'search'],
+      ['/v1/chat/completions', 'mist-1-turbo-0409', 'alice'],
+      ['/v1/embeddings', 'mist-embed', undefined],
+    ]);
+    expect(records[0].cost).toBeCloseTo(0.002);
+    expect(records[0].latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('asks streams for usage and records it when they end', async () => {
+    const chunk = { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'mist-1-turbo' };
+    const fetch = vi.fn(async () => sseResponse([
+      { ...chunk, choices: [{ index: 0, delta: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }] },
+      { ...chunk, choices: [], usage: COMPLETION.usage },
+    ]));
+    const client = new Waterlight({ apiKey: 'k', fetch, usage: true, spendGuard: { prices: PRICES, checkAccount: false } });
+
+    await client.chat.completions.create({ ...PARAMS, stream: true }, { tag: 'bot' }).finalChatCompletion();
+    await client.chat.completions.create({ ...PARAMS, stream: true, stream_options: { include_usage: false } }).finalChatCompletion();
+
+    const bodies = fetch.mock.calls.map(([, init]: any) => JSON.parse(init.body));
+    expect(bodies[0].stream_options).toEqual({ include_usage: true });
+    expect(bodies[1].stream_options).toEqual({ include_usage: false });
+    expect(client.usage!.snapshot().byTag.bot).toMatchObject({ requests: 1, total_tokens: 1500 });
+    expect(client.usage!.snapshot().byTag.bot.cost).toBeCloseTo(0.002);
+  });
+
+  it('records streams that fail or are closed early as errors', async () => {
+    const chunk = { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'mist-1-turbo' };
+    const delta = { ...chunk, choices: [{ index: 0, delta: { content: 'o' }, finish_reason: null }] };
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(sseResponse([delta, { error: { message: 'overloaded' } }]))
+      .mockResolvedValueOnce(sseResponse([delta, delta]));
+    const events: ClientEvent[] = [];
+    const client = new Waterlight({ apiKey: 'k', fetch, usage: true, onEvent: e => events.push(e) });
+
+    await expect(client.chat.completions.create({ ...PARAMS, stream: true }, { tag: 'a' }).finalChatCompletion()).rejects.toThrow('overloaded');
+    for await (const _ of client.chat.completions.create({ ...PARAMS, stream: true }, { tag: 'b' })) break;
+    client.chat.completions.create({ ...PARAMS, stream: true }, { tag: 'c' }).abort();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const { totals, byTag } = client.usage!.snapshot();
+    expect(totals).toMatchObject({ requests: 2, errors: 2 });
+    expect(Object.keys(byTag)).toEqual(['a', 'b']);
+    expect(events.filter(e => e.type === 'error')).toMatchObject([{ status: 0 }, { path: '/v1/chat/completions' }]);
+  });
+
+  it('leaves stream_options alone when tracking is off', async () => {
+    const fetch = vi.fn(async () => sseResponse([]));
+    const client = new Waterlight({ apiKey: 'k', fetch });
+    await client.chat.completions.create({ ...PARAMS, stream: true }).finalChatCompletion().catch(() => {});
+    expect(JSON.parse((fetch.mock.calls[0] as any)[1].body).stream_options).toBeUndefined();
+  });
+
+  it('records failed requests as errors', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ error: { message: 'bad' } }, 400));
+    const client = new Waterlight({ apiKey: 'k', fetch, usage: true });
+
+    await client.chat.completions.create(PARAMS, { tag: 't' }).catch(() => {});
+
+    expect(client.usage!.snapshot().totals).toMatchObject({ requests: 1, errors: 1, total_tokens: 0 });
+    expect(client.usage!.records[0].model).toBe('mist-1-turbo');
+  });
+});
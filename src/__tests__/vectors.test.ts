@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Waterlight } from '../client';
+import { VectorIndex, cosineSimilarity, dotProduct, normalize } from '../vectors';
+import { WaterlightError } from '../errors';
+
+// Toy embedding: [mentions cats, mentions dogs, mentions fish].
+const VOCAB = ['cat', 'dog', 'fish'];
+function embed(text: string): number[] {
+  return VOCAB.map(word => (text.toLowerCase().includes(word) ? 1 : 0));
+}
+
+function embeddingResponse(input: string[]): Response {
+  return new Response(JSON.stringify({
+    object: 'list',
+    model: 'mist-embed',
+    data: input.map((text, index) => ({ object: 'embedding', index, embedding: embed(text) })),
+    usage: { prompt_tokens: input.length, total_tokens: input.length },
+  }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+let mockFetch: ReturnType<typeof vi.fn>;
+let client: Waterlight;
+
+beforeEach(() => {
+  mockFetch = vi.fn(async (_url: string, init: RequestInit) => embeddingResponse(JSON.parse(init.body as string).input));
+  vi.stubGlobal('fetch', mockFetch);
+  client = new Waterlight({ apiKey: 'test-key', maxRetries: 0 });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('similarity utilities', () => {
+  it('computes dot product, cosine similarity and unit vectors', () => {
+    expect(dotProduct([1, 2, 3], [4, 5, 6])).toBe(32);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([2, 0], new Float32Array([5, 0]))).toBe(1);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    expect(Array.from(normalize([3, 4]))).toEqual([expect.closeTo(0.6), expect.closeTo(0.8)]);
+  });
+
+  it('rejects vectors of different dimensions', () => {
+    expect(() => dotProduct([1, 2], [1, 2, 3])).toThrow(WaterlightError);
+  });
+});
+
+describe('VectorIndex', () => {
+  async function petIndex() {
+    const index = new VectorIndex<{ kind: string }>(client, { model: 'mist-embed' });
+    await index.add([
+      { id: 'c', text: 'A cat sleeps', metadata: { kind: 'mammal' } },
+      { id: 'd', text: 'A dog barks', metadata: { kind: 'mammal' } },
+      { id: 'f', text: 'A fish swims', metadata: { kind: 'fish' } },
+      { id: 'cd', text: 'The cat chased the dog', metadata: { kind: 'mammal' } },
+    ]);
+    return index;
+  }
+
+  it('embeds documents in one batch and returns their ids', async () => {
+    const index = new VectorIndex(client, { model: 'mist-embed' });
+    const ids = await index.add(['about cats', { text: 'about dogs', metadata: { n: 1 } }]);
+
+    expect(ids).toEqual(['1', '2']);
+    expect(index.size).toBe(2);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body).toMatchObject({ model: 'mist-embed', input: ['about cats', 'about dogs'] });
+    expect(index.get('2')?.metadata).toEqual({ n: 1 });
+  });
+
+  it('returns the top-k matches for a text query, best first', async () => {
+    const index = await petIndex();
+
+    const hits = await index.search('my cat', { k: 2 });
+
+    expect(hits.map(h => h.id)).toEqual(['c', 'cd']);
+    expect(hits[0].score).toBeCloseTo(1);
+    expect(hits[1].score).toBeCloseTo(Math.SQRT1_2);
+    expect(hits[0]).toMatchObject({ text: 'A cat sleeps', metadata: { kind: 'mammal' } });
+  });
+
+  it('filters by metadata values or a predicate, and by minimum score', async () => {
+    const index = await petIndex();
+
+    expect(index.searchVector([1, 1, 1], { filter: { kind: 'fish' } }).map(h => h.id)).toEqual(['f']);
+    expect(index.searchVector([1, 1, 1], { filter: (_m, e) => e.text.includes('dog') }).map(h => h.id).sort()).toEqual(['cd', 'd']);
+    expect(index.searchVector([0, 1, 0], { minScore: 0.5 }).map(h => h.id)).toEqual(['d', 'cd']);
+  });
+
+  it('ranks by raw dot product with the dot metric', () => {
+    const index = new VectorIndex(client, { metric: 'dot' });
+    index.addVector({ id: 'small', text: '', vector: [1, 0] });
+    index.addVector({ id: 'big', text: '', vector: [0.9, 5] });
+    expect(index.searchVector([1, 1]).map(h => h.id)).toEqual(['big', 'small']);
+  });
+
+  it('replaces entries with an existing id, deletes and rejects mismatched dimensions', () => {
+    const index = new VectorIndex(client);
+    index.addVector({ id: 'a', text: 'one', vector: [1, 0] });
+    index.addVector({ id: 'a', text: 'two', vector: [0, 1] });
+    expect(index.size).toBe(1);
+    expect(index.get('a')?.text).toBe('two');
+
+    expect(() => index.addVector({ id: 'b', text: '', vector: [1, 0, 0] })).toThrow(/3 dimensions/);
+    expect(index.delete('a')).toBe(true);
+    expect(index.size).toBe(0);
+  });
+
+  it('saves to and loads from a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'waterlight-'));
+    try {
+      const index = await petIndex();
+      await index.save(join(dir, 'index.json'));
+
+      const loaded = await VectorIndex.load<{ kind: string }>(client, join(dir, 'index.json'));
+
+      expect(loaded.size).toBe(4);
+      expect(loaded.get('f')).toEqual(index.get('f'));
+      expect(loaded.searchVector([0, 0, 1], { k: 1 })[0]).toMatchObject({ id: 'f', metadata: { kind: 'fish' } });
+      // New ids don't collide with loaded ones.
+      loaded.addVector({ text: 'x', vector: [1, 1, 1] });
+      expect(loaded.size).toBe(5);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects invalid saved data', () => {
+    expect(() => VectorIndex.fromJSON(client, '{"entries":[]}')).toThrow(WaterlightError);
+  });
+});
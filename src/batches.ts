@@ -0,0 +1,96 @@
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import type { Batch, ChatCompletion, ChatCompletionCreateParams, FileCreateParams, RequestOptions } from './types';
+import { APIError, WaterlightError, makeStatusError } from './errors';
+
+/** A chat request in a batch; `custom_id` (default `request-<index>`) keys its result. */
+export type BatchChatRequest = ChatCompletionCreateParams & { custom_id?: string };
+
+/** The outcome of one request in a batch: the response, or the error it failed with. */
+export interface BatchResult<T = ChatCompletion> {
+  custom_id: string;
+  response?: T;
+  error?: WaterlightError;
+}
+
+/** Options for batches.poll(); request options apply to each status check. */
+export interface BatchPollOptions extends RequestOptions {
+  /** First wait (ms) between status checks (default 5,000); it grows by half after each check. */
+  pollInterval?: number;
+  /** Longest wait (ms) between status checks (default 60,000). */
+  maxPollInterval?: number;
+  /** Called with the batch after each status check. */
+  onProgress?: (batch: Batch) => void;
+}
+
+/** Options for batches.runChatCompletions(). */
+export interface BatchRunOptions extends BatchPollOptions {
+  metadata?: Record<string, string>;
+}
+
+export interface BatchRunResult {
+  /** The batch in its final state. */
+  batch: Batch;
+  /** Results by `custom_id`. Requests a cancelled or expired batch never ran have none. */
+  results: Record<string, BatchResult>;
+}
+
+/** @internal Statuses a batch never leaves. */
+export const FINAL_BATCH_STATUSES = new Set<Batch['status']>(['completed', 'failed', 'expired', 'cancelled']);
+
+/**
+ * Serialise chat requests as a batch input file: one JSONL line per
+ * request, addressed to /v1/chat/completions.
+ *
+ * @throws WaterlightError for a streaming request or a repeated `custom_id`
+ */
+export function toBatchJSONL(requests: BatchChatRequest[]): string {
+  const seen = new Set<string>();
+  return requests.map(({ custom_id: id, ...body }, i) => {
+    const custom_id = id ?? `request-${i}`;
+    if (seen.has(custom_id)) throw new WaterlightError(`Duplicate custom_id in batch: ${custom_id}`);
+    if (body.stream) throw new WaterlightError(`Batch request ${custom_id} sets stream; batches cannot stream`);
+    seen.add(custom_id);
+    return JSON.stringify({ custom_id, method: 'POST', url: '/v1/chat/completions', body });
+  }).join('\n') + '\n';
+}
+
+/**
+ * Parse a batch output or error file into results by `custom_id`. Failed
+ * requests get the error class their status would raise from a direct call.
+ */
+export function parseBatchOutput<T = ChatCompletion>(jsonl: string): Record<string, BatchResult<T>> {
+  const results: Record<string, BatchResult<T>> = {};
+  for (const line of jsonl.split('\n')) {
+    if (!line.trim()) continue;
+    const { custom_id, response, error } = JSON.parse(line);
+    if (error) {
+      results[custom_id] = { custom_id, error: new APIError(error.message ?? 'Batch request failed', 0) };
+    } else if (response.status_code >= 400) {
+      const headers = new Headers(response.request_id ? { 'x-request-id': response.request_id } : {});
+      results[custom_id] = { custom_id, error: makeStatusError(response.status_code, response.body, headers) };
+    } else {
+      results[custom_id] = { custom_id, response: response.body };
+    }
+  }
+  return results;
+}
+
+/** @internal Multipart form for files.create(). */
+export async function fileForm({ file, purpose, filename }: FileCreateParams): Promise<FormData> {
+  let blob: Blob;
+  let name = filename;
+  if (typeof file === 'string') {
+    blob = new Blob([await readFile(file)]);
+    name ??= basename(file);
+  } else if (file instanceof Blob) {
+    blob = file;
+    name ??= (file as Partial<File>).name;
+  } else {
+    blob = new Blob([file as BlobPart]);
+  }
+  const form = new FormData();
+  form.append('purpose', purpose);
+  form.append('file', blob, name || 'upload');
+  return form;
+}
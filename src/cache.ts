@@ -0,0 +1,222 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { CacheInfo, ChatCompletion, ChatCompletionChunk, StreamedChatCompletion } from './types';
+
+/** A stored response. `expiresAt` is epoch ms; absent means it never expires. */
+export interface CacheEntry {
+  value: unknown;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+/** Storage backend for the response cache. Methods may be sync or async. */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/** A request the cache is asked about. `body` excludes `stream` / `stream_options`. */
+export interface CacheableRequest {
+  method: string;
+  path: string;
+  body?: object;
+}
+
+export interface CacheOptions {
+  /** Defaults to a MemoryCacheStore of 1000 entries. */
+  store?: CacheStore;
+  /** Lifetime of an entry in ms; entries never expire if omitted. */
+  ttl?: number;
+  /**
+   * Decides which requests are cached. The default caches models.list,
+   * embeddings, and chat completions sent with `temperature: 0`.
+   * `RequestOptions.cache` overrides it per call.
+   */
+  filter?: (request: CacheableRequest) => boolean;
+}
+
+/** Least-recently-used in-memory store. */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Entries are cloned in and out so callers mutating a result can't alter the cache.
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(entry));
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * One JSON file per entry in `dir` (created on first write). Survives
+ * restarts and can be committed as a CI fixture. Unreadable files are
+ * treated as misses.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly dir: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(this.file(key), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.file(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.file(key)).catch(() => {});
+  }
+
+  async clear(): Promise<void> {
+    const names = await readdir(this.dir).catch(() => [] as string[]);
+    await Promise.all(names.filter(n => n.endsWith('.json')).map(n => unlink(join(this.dir, n)).catch(() => {})));
+  }
+
+  private file(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
+
+function defaultFilter({ path, body }: CacheableRequest): boolean {
+  if (path === '/v1/chat/completions') return (body as { temperature?: number } | undefined)?.temperature === 0;
+  return true;
+}
+
+/**
+ * Response cache used by the client. Keys are a SHA-256 of the method,
+ * URL and canonical (key-sorted) JSON body, so property order and the
+ * `stream` flag don't matter.
+ *
+ * @internal
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  private readonly ttl?: number;
+  private readonly filter: (request: CacheableRequest) => boolean;
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = options.ttl;
+    this.filter = options.filter ?? defaultFilter;
+  }
+
+  /** The key for a request, or undefined if it should not be cached. */
+  keyFor(request: CacheableRequest & { url: string }, override?: boolean): string | undefined {
+    const body = request.body && withoutStreamFields(request.body);
+    if (override === false) return undefined;
+    if (override !== true && !this.filter({ method: request.method, path: request.path, body })) return undefined;
+    return createHash('sha256')
+      .update(canonicalJSON({ method: request.method, url: request.url, body: body ?? null }))
+      .digest('hex');
+  }
+
+  /** A live entry's value and metadata; expired entries are deleted. Store errors count as misses. */
+  async get(key: string): Promise<{ value: unknown; info: CacheInfo } | undefined> {
+    let entry: CacheEntry | undefined;
+    try {
+      entry = await this.store.get(key);
+    } catch {
+      return undefined;
+    }
+    if (!entry) return undefined;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await Promise.resolve(this.store.delete(key)).catch(() => {});
+      return undefined;
+    }
+    return { value: entry.value, info: { hit: true, key, createdAt: entry.createdAt } };
+  }
+
+  /** Store a value; failures are ignored so a broken store never fails a request. */
+  async set(key: string, value: unknown): Promise<CacheInfo> {
+    const createdAt = Date.now();
+    const entry: CacheEntry = { value, createdAt, ...(this.ttl !== undefined ? { expiresAt: createdAt + this.ttl } : {}) };
+    await Promise.resolve(this.store.set(key, entry)).catch(() => {});
+    return { hit: false, key, createdAt };
+  }
+}
+
+function withoutStreamFields(body: object): object {
+  const { stream, stream_options, ...rest } = body as Record<string, unknown>;
+  return rest;
+}
+
+/** JSON with object keys sorted and undefined members dropped, for stable comparison and hashing. @internal */
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter(k => (value as Record<string, unknown>)[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJSON((value as Record<string, unknown>)[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** Replay a completion as the chunks a server would have streamed for it. */
+export function completionToChunks(completion: ChatCompletion | StreamedChatCompletion): ChatCompletionChunk[] {
+  const base = {
+    id: completion.id,
+    object: 'chat.completion.chunk' as const,
+    created: completion.created,
+    model: completion.model,
+    ...(completion.system_fingerprint ? { system_fingerprint: completion.system_fingerprint } : {}),
+  };
+  const chunks: ChatCompletionChunk[] = [];
+  for (const { index, message, finish_reason, logprobs } of completion.choices) {
+    chunks.push({
+      ...base,
+      choices: [{
+        index,
+        delta: {
+          role: message.role,
+          content: message.content,
+          ...(message.refusal ? { refusal: message.refusal } : {}),
+          ...(message.tool_calls?.length
+            ? { tool_calls: message.tool_calls.map((call, i) => ({ index: i, ...call })) }
+            : {}),
+        },
+        finish_reason: null,
+        ...(logprobs ? { logprobs } : {}),
+      }],
+    });
+    chunks.push({ ...base, choices: [{ index, delta: {}, finish_reason }] });
+  }
+  if (completion.usage) chunks.push({ ...base, choices: [], usage: completion.usage });
+  return chunks;
+}
+
+/** An SSE Response carrying `chunks`, terminated by `[DONE]`. */
+export function sseResponse(chunks: ChatCompletionChunk[], headers: Record<string, string> = {}): Response {
+  const text = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream', ...headers } });
+}
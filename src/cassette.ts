@@ -0,0 +1,217 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { Middleware, MiddlewareRequest } from './middleware';
+import { CassetteError } from './errors';
+import { canonicalJSON } from './cache';
+
+/**
+ * - `replay`: answer only from the file; unrecorded requests throw CassetteError.
+ * - `record`: send every request and overwrite the file with what was seen.
+ * - `auto`: replay what is recorded and record (append) the rest.
+ */
+export type CassetteMode = 'replay' | 'record' | 'auto';
+
+/** A request as stored in a cassette. `url` is path and query only, so the base URL can change. */
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Full response text, SSE streams included. */
+  body: string;
+}
+
+export interface CassetteInteraction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+export interface CassetteData {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * - `strict`: method, URL and body must match, and interactions replay in recorded order.
+ * - `body` (default): method, URL and body must match; the first unused match is replayed.
+ * - `path`: method and URL must match; bodies are ignored.
+ * - a function deciding whether a recorded request answers a live one.
+ */
+export type CassetteMatch = 'strict' | 'body' | 'path' | ((live: RecordedRequest, recorded: RecordedRequest) => boolean);
+
+export interface CassetteOptions {
+  /** Default 'auto', or the WATERLIGHT_CASSETTE env var (`replay`/`record`/`auto`). */
+  mode?: CassetteMode;
+  match?: CassetteMatch;
+  /** Extra strings (besides the bearer token) to replace with "[REDACTED]" in the file. */
+  secrets?: string[];
+}
+
+const REDACTED = '[REDACTED]';
+const SECRET_HEADERS = /^(authorization|api-key|x-api-key|cookie|set-cookie)$/i;
+
+/**
+ * VCR-style recorder: a middleware that writes every HTTP interaction
+ * (plain and streaming, response headers included) to a JSON file, and
+ * later replays them without network access. Credentials are scrubbed
+ * before anything is written.
+ *
+ * Add it as the last middleware so it sees requests as they are sent.
+ *
+ * @example
+ * ```ts
+ * const cassette = new Cassette('test/fixtures/chat.json', { mode: process.env.CI ? 'replay' : 'auto' });
+ * const client = new Waterlight({ middleware: [cassette.middleware] });
+ * await client.chat.completions.create({ model: 'mist-1-turbo', messages });
+ * await cassette.flush();
+ * ```
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  private readonly match: CassetteMatch;
+  private readonly secrets: Set<string>;
+  private interactions: CassetteInteraction[] = [];
+  private readonly used = new Set<number>();
+  private loaded?: Promise<void>;
+  private pending = new Set<Promise<void>>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string, options: CassetteOptions = {}) {
+    const env = process.env.WATERLIGHT_CASSETTE as CassetteMode | undefined;
+    this.mode = options.mode ?? (env === 'replay' || env === 'record' || env === 'auto' ? env : 'auto');
+    this.match = options.match ?? 'body';
+    this.secrets = new Set(options.secrets ?? []);
+  }
+
+  /** Pass to `client.use()` or the `middleware` client option. */
+  readonly middleware: Middleware = async (req, next) => {
+    await this.load();
+    const live = this.toRecorded(req);
+
+    if (this.mode !== 'record') {
+      const index = this.find(live);
+      if (index !== -1) {
+        this.used.add(index);
+        const { response } = this.interactions[index];
+        return new Response(response.body || null, { status: response.status, headers: response.headers });
+      }
+      if (this.mode === 'replay') {
+        throw new CassetteError(
+          `No recorded interaction in ${this.path} matches ${live.method} ${live.url}` +
+          (this.match === 'strict' ? ' (strict mode: requests must arrive in recorded order)' : '') +
+          '; record it with mode "auto" or "record"',
+        );
+      }
+    }
+
+    const res = await next(req);
+    if (!res.body) {
+      this.track(this.store(live, res, Promise.resolve('')));
+      return res;
+    }
+    // Tee the body so streams reach the caller as they arrive while a copy is recorded.
+    const [forCaller, forCassette] = res.body.tee();
+    this.track(this.store(live, res, new Response(forCassette).text()));
+    return new Response(forCaller, { status: res.status, statusText: res.statusText, headers: res.headers });
+  };
+
+  /** Interactions currently held (loaded plus recorded). */
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  /** Wait until every recorded response has been read and written to the file. */
+  async flush(): Promise<void> {
+    while (this.pending.size) await Promise.all(this.pending);
+    await this.writing;
+  }
+
+  private load(): Promise<void> {
+    return this.loaded ??= (async () => {
+      if (this.mode === 'record') return;
+      let text: string;
+      try {
+        text = await readFile(this.path, 'utf8');
+      } catch (e: any) {
+        if (e?.code === 'ENOENT' && this.mode === 'auto') return;
+        throw new CassetteError(`Cannot read cassette ${this.path}: ${e?.message ?? e}`);
+      }
+      const data: CassetteData = JSON.parse(text);
+      if (data?.version !== 1 || !Array.isArray(data.interactions)) {
+        throw new CassetteError(`Invalid cassette file ${this.path}`);
+      }
+      this.interactions = data.interactions;
+    })();
+  }
+
+  private find(live: RecordedRequest): number {
+    if (this.match === 'strict') {
+      const index = this.used.size;
+      const next = this.interactions[index];
+      return next && next.request.method === live.method && next.request.url === live.url && sameBody(next.request.body, live.body)
+        ? index : -1;
+    }
+    const matches = (recorded: RecordedRequest): boolean => {
+      if (typeof this.match === 'function') return this.match(live, recorded);
+      if (recorded.method !== live.method || recorded.url !== live.url) return false;
+      return this.match === 'path' || sameBody(recorded.body, live.body);
+    };
+    return this.interactions.findIndex((i, index) => !this.used.has(index) && matches(i.request));
+  }
+
+  private toRecorded(req: MiddlewareRequest): RecordedRequest {
+    const url = new URL(req.url);
+    const token = /^Bearer (.+)$/i.exec(req.headers['Authorization'] ?? req.headers['authorization'] ?? '')?.[1];
+    if (token) this.secrets.add(token);
+    // Body round-trips through the scrubber so live and recorded requests compare alike.
+    return this.scrub({
+      method: req.method,
+      url: url.pathname + url.search,
+      headers: req.headers,
+      ...(req.body !== undefined ? { body: req.body } : {}),
+    });
+  }
+
+  private async store(request: RecordedRequest, res: Response, body: Promise<string>): Promise<void> {
+    const headers: Record<string, string> = {};
+    // The body is stored decoded, so its original encoding and length no longer apply.
+    res.headers.forEach((value, key) => { if (!/^(content-encoding|content-length)$/.test(key)) headers[key] = value; });
+    let text: string;
+    try {
+      text = await body;
+    } catch {
+      return; // The caller aborted mid-body; an incomplete interaction is not worth keeping.
+    }
+    this.interactions.push(this.scrub({ request, response: { status: res.status, headers, body: text } }));
+    this.used.add(this.interactions.length - 1);
+    const snapshot: CassetteData = { version: 1, interactions: this.interactions };
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, JSON.stringify(snapshot, null, 2) + '\n');
+    });
+    await this.writing;
+  }
+
+  private track(promise: Promise<void>): void {
+    this.pending.add(promise);
+    promise.finally(() => this.pending.delete(promise)).catch(() => {});
+  }
+
+  private scrub<T>(value: T): T {
+    const json = JSON.stringify(value, (key, v) => (SECRET_HEADERS.test(key) && typeof v === 'string' ? REDACTED : v));
+    let out = json;
+    for (const secret of this.secrets) {
+      if (secret.length >= 8) out = out.split(JSON.stringify(secret).slice(1, -1)).join(REDACTED);
+    }
+    return JSON.parse(out);
+  }
+}
+
+function sameBody(a: unknown, b: unknown): boolean {
+  return canonicalJSON(a ?? null) === canonicalJSON(b ?? null);
+}
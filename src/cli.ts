@@ -0,0 +1,384 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { Waterlight, BillingInfo } from './client';
+import { Conversation, ConversationParams } from './conversation';
+import { APIUserAbortError, WaterlightError } from './errors';
+import { contentText } from './content';
+import type { Stream } from './streaming';
+
+/** Where the CLI reads and writes; `process` streams when run as a binary. */
+export interface CLIEnvironment {
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  env: Record<string, string | undefined>;
+}
+
+type FlagSpec = Record<string, { type: 'string' | 'boolean'; short?: string; help: string; arg?: string }>;
+type Flags = Record<string, string | boolean | undefined>;
+
+interface Command {
+  summary: string;
+  usage: string;
+  flags: FlagSpec;
+  run(args: { client: () => Waterlight; flags: Flags; positionals: string[]; io: CLIEnvironment }): Promise<void>;
+}
+
+const DEFAULT_MODEL = 'mist-1-turbo';
+
+const GLOBAL_FLAGS: FlagSpec = {
+  'api-key': { type: 'string', arg: 'key', help: 'API key (default: $WATERLIGHT_API_KEY)' },
+  'base-url': { type: 'string', arg: 'url', help: 'API base URL (default: $WATERLIGHT_BASE_URL)' },
+  'json': { type: 'boolean', help: 'Print raw JSON responses' },
+  'help': { type: 'boolean', short: 'h', help: 'Show help' },
+};
+
+class UsageError extends WaterlightError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const COMMANDS: Record<string, Command> = {
+  chat: {
+    summary: 'Send a prompt, or chat interactively',
+    usage: 'waterlight chat [options] [prompt...]',
+    flags: {
+      'model': { type: 'string', short: 'm', arg: 'id', help: `Model (default: $WATERLIGHT_MODEL, then ${DEFAULT_MODEL})` },
+      'system': { type: 'string', short: 's', arg: 'text', help: 'System prompt' },
+      'temperature': { type: 'string', short: 't', arg: 'n', help: 'Sampling temperature' },
+      'max-tokens': { type: 'string', arg: 'n', help: 'Maximum tokens in each reply' },
+      'session': { type: 'string', arg: 'file', help: 'Load history from, and save it to, a JSON file' },
+      'interactive': { type: 'boolean', short: 'i', help: 'Start a REPL (the default when no prompt is given on a terminal)' },
+      'no-stream': { type: 'boolean', help: 'Wait for the full reply instead of streaming it' },
+    },
+    run: runChat,
+  },
+  embed: {
+    summary: 'Embed each line of a file or stdin, printing JSONL vectors',
+    usage: 'waterlight embed [options] [file]',
+    flags: {
+      'model': { type: 'string', short: 'm', arg: 'id', help: 'Embedding model (default: the server default)' },
+      'batch-size': { type: 'string', arg: 'n', help: 'Inputs per request (default 2048)' },
+      'concurrency': { type: 'string', arg: 'n', help: 'Requests in flight at once (default 4)' },
+    },
+    run: runEmbed,
+  },
+  models: {
+    summary: 'List available models',
+    usage: 'waterlight models [options]',
+    flags: {},
+    run: runModels,
+  },
+  billing: {
+    summary: 'Show plan, spend and limits',
+    usage: 'waterlight billing [options]',
+    flags: {},
+    run: runBilling,
+  },
+};
+
+/**
+ * Run the CLI with `argv` (without the node and script paths) and resolve
+ * to the exit code: 0 on success, 1 on API errors, 2 on usage errors.
+ */
+export async function main(argv: string[], io: CLIEnvironment = processEnvironment()): Promise<number> {
+  const [name, ...rest] = argv;
+  if (name === '--version' || name === '-v') {
+    io.stdout.write(`${packageVersion()}\n`);
+    return 0;
+  }
+  if (!name) {
+    io.stderr.write(mainHelp());
+    return 2;
+  }
+  if (name === 'help' || name === '--help' || name === '-h') {
+    io.stdout.write(mainHelp());
+    return 0;
+  }
+  const command = COMMANDS[name];
+  if (!command) {
+    io.stderr.write(`waterlight: unknown command "${name}"\n\n${mainHelp()}`);
+    return 2;
+  }
+
+  try {
+    const spec = { ...command.flags, ...GLOBAL_FLAGS };
+    const { flags, positionals } = parseArgs(rest, spec);
+    if (flags.help) {
+      io.stdout.write(commandHelp(command, spec));
+      return 0;
+    }
+    let client: Waterlight | undefined;
+    await command.run({
+      client: () => client ??= new Waterlight({
+        apiKey: (flags['api-key'] as string | undefined) ?? io.env.WATERLIGHT_API_KEY,
+        baseUrl: (flags['base-url'] as string | undefined) ?? io.env.WATERLIGHT_BASE_URL,
+      }),
+      flags,
+      positionals,
+      io,
+    });
+    return 0;
+  } catch (e) {
+    io.stderr.write(`waterlight: ${e instanceof Error ? e.message : String(e)}\n`);
+    return e instanceof UsageError ? 2 : 1;
+  }
+}
+
+async function runChat({ client, flags, positionals, io }: Parameters<Command['run']>[0]): Promise<void> {
+  const overrides: Partial<ConversationParams> = {};
+  if (flags.model) overrides.model = flags.model as string;
+  if (flags.temperature !== undefined) overrides.temperature = toNumber(flags.temperature, 'temperature');
+  if (flags['max-tokens'] !== undefined) overrides.max_tokens = toNumber(flags['max-tokens'], 'max-tokens');
+
+  const session = flags.session as string | undefined;
+  const saved = session ? await readSession(session) : undefined;
+  if (saved !== undefined && flags.system !== undefined) {
+    throw new UsageError('--system cannot be combined with an existing --session');
+  }
+  const conversation = saved !== undefined
+    ? Conversation.fromJSON(client(), saved)
+    : new Conversation(client(), {
+      model: io.env.WATERLIGHT_MODEL || DEFAULT_MODEL,
+      ...(flags.system !== undefined ? { system: flags.system as string } : {}),
+    });
+  const save = async () => {
+    if (session) await writeFile(session, JSON.stringify(conversation, null, 2) + '\n');
+  };
+  const turn = async (prompt: string, signal?: AbortSignal) => {
+    if (flags.json) {
+      const completion = await conversation.send(prompt, overrides, { signal });
+      io.stdout.write(JSON.stringify(completion, null, 2) + '\n');
+    } else if (flags['no-stream']) {
+      const completion = await conversation.send(prompt, overrides, { signal });
+      io.stdout.write(`${completion.choices[0]?.message.content ?? ''}\n`);
+    } else {
+      await printStream(await conversation.stream(prompt, overrides, { signal }), io.stdout);
+    }
+    await save();
+  };
+
+  let prompt = positionals.join(' ');
+  const interactive = flags.interactive || (!prompt && io.stdin.isTTY);
+  if (!interactive) {
+    if (!prompt) prompt = (await readAll(io.stdin)).trim();
+    if (!prompt) throw new UsageError('No prompt given; pass one as arguments or on stdin');
+    await turn(prompt);
+    return;
+  }
+  if (prompt) await turn(prompt);
+  await repl(conversation, turn, save, io);
+}
+
+async function repl(
+  conversation: Conversation,
+  turn: (prompt: string, signal?: AbortSignal) => Promise<void>,
+  save: () => Promise<void>,
+  io: CLIEnvironment,
+): Promise<void> {
+  const rl = createInterface({ input: io.stdin, output: io.stdout, terminal: !!io.stdin.isTTY });
+  let inFlight: AbortController | undefined;
+  // Ctrl-C cancels the reply being generated; at the prompt it quits.
+  rl.on('SIGINT', () => (inFlight ? inFlight.abort() : rl.close()));
+  if (io.stdin.isTTY) io.stdout.write('Type /help for commands, /exit or Ctrl-D to quit.\n');
+  rl.setPrompt('> ');
+  rl.prompt();
+
+  for await (const line of rl) {
+    const input = line.trim();
+    if (input === '/exit' || input === '/quit') break;
+    if (input === '/help') {
+      io.stdout.write('/clear    forget the history (keeps the system prompt)\n/history  print the history\n/exit     quit\n');
+    } else if (input === '/clear') {
+      conversation.clear();
+      await save();
+    } else if (input === '/history') {
+      for (const m of conversation.messages) io.stdout.write(`${m.role}: ${m.content === null ? JSON.stringify(m.tool_calls) : contentText(m.content)}\n`);
+    } else if (input.startsWith('/')) {
+      io.stderr.write(`Unknown command ${input}; try /help\n`);
+    } else if (input) {
+      inFlight = new AbortController();
+      try {
+        await turn(input, inFlight.signal);
+      } catch (e) {
+        // The conversation rolls back a failed turn, so the user can retry.
+        io.stderr.write(e instanceof APIUserAbortError ? '\n(interrupted)\n' : `waterlight: ${e instanceof Error ? e.message : e}\n`);
+      } finally {
+        inFlight = undefined;
+      }
+    }
+    rl.prompt();
+  }
+  rl.close();
+}
+
+async function runEmbed({ client, flags, positionals, io }: Parameters<Command['run']>[0]): Promise<void> {
+  const text = positionals[0] !== undefined && positionals[0] !== '-' ? await readFile(positionals[0], 'utf8') : await readAll(io.stdin);
+  const input = text.split(/\r?\n/).filter(line => line.trim());
+  if (!input.length) throw new UsageError('No input to embed; pass a file or pipe lines on stdin');
+
+  const response = await client().embeddings.createMany({
+    input,
+    ...(flags.model ? { model: flags.model as string } : {}),
+    ...(flags['batch-size'] !== undefined ? { batchSize: toNumber(flags['batch-size'], 'batch-size') } : {}),
+    ...(flags.concurrency !== undefined ? { concurrency: toNumber(flags.concurrency, 'concurrency') } : {}),
+  });
+  if (flags.json) {
+    io.stdout.write(JSON.stringify(response) + '\n');
+    return;
+  }
+  for (const item of response.data) {
+    io.stdout.write(JSON.stringify({ index: item.index, input: input[item.index], embedding: item.embedding }) + '\n');
+  }
+}
+
+async function runModels({ client, flags, io }: Parameters<Command['run']>[0]): Promise<void> {
+  const models = await client().models.list();
+  if (flags.json) {
+    io.stdout.write(JSON.stringify(models, null, 2) + '\n');
+    return;
+  }
+  io.stdout.write(table(
+    ['ID', 'OWNED BY', 'CREATED'],
+    models.data.map(m => [m.id, m.owned_by, m.created ? new Date(m.created * 1000).toISOString().slice(0, 10) : '']),
+  ));
+}
+
+async function runBilling({ client, flags, io }: Parameters<Command['run']>[0]): Promise<void> {
+  const billing = await client().billing.get();
+  io.stdout.write(flags.json ? JSON.stringify(billing, null, 2) + '\n' : formatBilling(billing));
+}
+
+/** Render BillingInfo as aligned "Label: value" lines, leaving out fields the plan doesn't have. */
+function formatBilling(b: BillingInfo): string {
+  const usd = (n: number) => `$${n.toFixed(2)}`;
+  const count = (n: number) => n.toLocaleString('en-US');
+  const rows: [string, string | undefined][] = [
+    ['Plan', `${b.plan} (${b.billing_mode})`],
+    ['Spent', b.budget_usd
+      ? `${usd(b.spent_usd)} of ${usd(b.budget_usd)} budget (${(b.spent_usd / b.budget_usd * 100).toFixed(1)}%)`
+      : usd(b.spent_usd)],
+    ['Remaining', b.remaining_usd !== undefined ? usd(b.remaining_usd) : undefined],
+    ['Balance', b.balance_usd !== undefined ? usd(b.balance_usd) : undefined],
+    ['Monthly', b.monthly_usd !== undefined ? usd(b.monthly_usd) : undefined],
+    ['Daily', b.daily_limit !== undefined ? `${count(b.daily_used ?? 0)} of ${count(b.daily_limit)} requests` : undefined],
+    ['Requests', count(b.total_requests)],
+    ['Tokens', count(b.total_tokens)],
+    ['Rate limits', `${count(b.rpm_limit)} RPM, ${count(b.tpm_limit)} TPM`],
+    ['Models', b.allowed_models?.length ? b.allowed_models.join(', ') : undefined],
+  ];
+  const shown = rows.filter((r): r is [string, string] => r[1] !== undefined);
+  const width = Math.max(...shown.map(([label]) => label.length)) + 2;
+  return shown.map(([label, value]) => `${`${label}:`.padEnd(width)}${value}\n`).join('');
+}
+
+async function printStream(stream: Stream, out: NodeJS.WritableStream): Promise<void> {
+  for await (const chunk of stream) {
+    const content = chunk.choices[0]?.delta?.content;
+    if (content) out.write(content);
+  }
+  out.write('\n');
+}
+
+function parseArgs(argv: string[], spec: FlagSpec): { flags: Flags; positionals: string[] } {
+  const flags: Flags = {};
+  const positionals: string[] = [];
+  const byShort = new Map(Object.entries(spec).filter(([, s]) => s.short).map(([name, s]) => [s.short!, name]));
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    const match = /^--([^=]+)(?:=(.*))?$/.exec(arg) ?? /^-([a-zA-Z])$/.exec(arg);
+    if (!match) {
+      positionals.push(arg);
+      continue;
+    }
+    const name = arg.startsWith('--') ? match[1] : byShort.get(match[1]);
+    const flag = name !== undefined ? spec[name] : undefined;
+    if (!name || !flag) throw new UsageError(`Unknown option ${arg}`);
+    if (flag.type === 'boolean') {
+      if (match[2] !== undefined) throw new UsageError(`Option --${name} takes no value`);
+      flags[name] = true;
+    } else {
+      const value = match[2] ?? argv[++i];
+      if (value === undefined) throw new UsageError(`Option --${name} needs a value`);
+      flags[name] = value;
+    }
+  }
+  return { flags, positionals };
+}
+
+function toNumber(value: string | boolean | undefined, name: string): number {
+  const n = Number(value);
+  if (typeof value !== 'string' || value.trim() === '' || !Number.isFinite(n)) {
+    throw new UsageError(`--${name} must be a number, got "${value}"`);
+  }
+  return n;
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  return [headers, ...rows].map(r => r.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd() + '\n').join('');
+}
+
+/** A saved conversation, or undefined if the session file doesn't exist yet. */
+async function readSession(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return undefined;
+    throw e;
+  }
+}
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<string> {
+  let text = '';
+  stream.setEncoding('utf8');
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+function mainHelp(): string {
+  const names = Object.keys(COMMANDS);
+  const width = Math.max(...names.map(n => n.length)) + 2;
+  return [
+    'Usage: waterlight <command> [options]',
+    '',
+    'Commands:',
+    ...names.map(n => `  ${n.padEnd(width)}${COMMANDS[n].summary}`),
+    '',
+    'Run "waterlight <command> --help" for its options. --version prints the version.',
+    '',
+  ].join('\n');
+}
+
+function commandHelp(command: Command, spec: FlagSpec): string {
+  const lines = Object.entries(spec).map(([name, s]) => [
+    `${s.short ? `-${s.short}, ` : '    '}--${name}${s.arg ? ` <${s.arg}>` : ''}`,
+    s.help,
+  ]);
+  const width = Math.max(...lines.map(([flag]) => flag.length)) + 2;
+  return [`Usage: ${command.usage}`, '', command.summary, '', 'Options:', ...lines.map(([flag, help]) => `  ${flag.padEnd(width)}${help}`), ''].join('\n');
+}
+
+function packageVersion(): string {
+  return JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf8')).version;
+}
+
+function processEnvironment(): CLIEnvironment {
+  return { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr, env: process.env };
+}
+
+if (typeof require !== 'undefined' && require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
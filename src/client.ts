@@ -1,41 +1,164 @@
 import {
-  AuthenticationError,
-  RateLimitError,
-  InsufficientCreditsError,
+  APIUserAbortError,
   APIError,
   WaterlightError,
+  StructuredOutputError,
+  makeStatusError,
 } from './errors';
 import type {
+  Batch,
+  BatchCreateParams,
+  BatchList,
+  BatchListParams,
   ChatCompletionCreateParams,
   ChatCompletion,
   ChatCompletionChunk,
   EmbeddingCreateParams,
   EmbeddingResponse,
+  FileCreateParams,
+  FileDeleted,
+  FileList,
+  FileListParams,
+  FileObject,
+  Model,
   ModelList,
+  RequestOptions,
+  Usage,
+  JSONSchemaFormat,
+  ParsedChatCompletion,
+  ResponseFormat,
+  RouteInfo,
 } from './types';
 import { Stream } from './streaming';
+import { ToolRunner, RunToolsParams } from './tools';
+import { createEmbeddingsInBatches, decodeEmbedding, EmbeddingBatchParams } from './embeddings';
+import { validateSchema, JSONSchema, FromSchema } from './schema';
+import { composeMiddleware, Middleware } from './middleware';
+import { RateLimiter, RateLimitOptions, RateLimitReservation, estimateRequestTokens } from './ratelimit';
+import { BILLABLE_PATHS, SpendGuard, SpendGuardOptions, SpendReservation } from './spend';
+import { UsageTracker, UsageTrackerOptions } from './usage';
+import { ModelRegistry, ModelRegistryOptions } from './models';
+import { FailoverOptions, FailoverRouter } from './failover';
+import {
+  BatchChatRequest,
+  BatchPollOptions,
+  BatchResult,
+  BatchRunOptions,
+  BatchRunResult,
+  FINAL_BATCH_STATUSES,
+  fileForm,
+  parseBatchOutput,
+  toBatchJSONL,
+} from './batches';
+import { ResponseCache, CacheOptions, CacheStore, completionToChunks, sseResponse } from './cache';
+import { EventSink, resolveLogLevel, ClientEventHandler, LogLevel, Logger } from './logging';
 
 const DEFAULT_BASE_URL = 'https://api.waterlight.io';
 const DEFAULT_TIMEOUT = 120_000;
 const DEFAULT_MAX_RETRIES = 2;
 const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new APIUserAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new APIUserAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
-function handleError(status: number, body: any, headers?: Headers): never {
-  const errObj = body?.error;
-  const msg: string = (typeof errObj === 'object' ? errObj?.message : errObj) ?? 'Request failed';
-  const requestId = headers?.get('x-request-id') ?? undefined;
-  if (status === 401) throw new AuthenticationError(msg, requestId);
-  if (status === 429) {
-    const ra = headers?.get('retry-after');
-    const retryAfter = ra ? parseFloat(ra) : undefined;
-    throw new RateLimitError(msg, retryAfter, requestId);
-  }
-  if (status === 402) throw new InsufficientCreditsError(msg, requestId);
-  throw new APIError(msg, status, requestId);
+/** Strip trailing slashes, and refuse plain HTTP except to localhost. */
+function resolveBaseUrl(url: string): string {
+  const resolved = url.replace(/\/+$/, '');
+  if (!resolved.startsWith('https://') && !resolved.startsWith('http://localhost') && !resolved.startsWith('http://127.0.0.1')) {
+    throw new WaterlightError(
+      `baseUrl must use HTTPS (got: ${resolved.slice(0, 40)}...). HTTP is only allowed for localhost development.`,
+    );
+  }
+  return resolved;
+}
+
+/** Parameters for chat.completions.parse(): a non-streaming request with a JSON response_format. */
+export interface ChatCompletionParseParams extends Omit<ChatCompletionCreateParams, 'stream' | 'response_format'> {
+  response_format: Exclude<ResponseFormat, { type: 'text' }>;
+}
+
+/** Constructor options for {@link Waterlight}. */
+export interface ClientOptions {
+  /** Defaults to the WATERLIGHT_API_KEY env var. */
+  apiKey?: string;
+  /** Defaults to the WATERLIGHT_BASE_URL env var, then https://api.waterlight.io. */
+  baseUrl?: string;
+  /** Time (ms) to wait for response headers on each attempt. */
+  timeout?: number;
+  maxRetries?: number;
+  /** Longest gap (ms) allowed between bytes of a stream; defaults to `timeout`. */
+  idleTimeout?: number;
+  /** Cap (ms) on a whole stream including connect; 0 means no cap. */
+  totalTimeout?: number;
+  /**
+   * fetch implementation used for every request, streaming included.
+   * Defaults to the global fetch; supply one to route through a proxy,
+   * a tuned HTTP agent, or an in-process fake in tests.
+   */
+  fetch?: typeof fetch;
+  /** Headers sent with every request; per-request headers take precedence. */
+  defaultHeaders?: Record<string, string>;
+  /** Extra fetch init fields (e.g. undici's `dispatcher`) merged into every request. */
+  fetchOptions?: Record<string, unknown>;
+  /** Initial middleware chain; more can be added with `client.use()`. */
+  middleware?: Middleware[];
+  /**
+   * Opt-in client-side RPM/TPM limiting. Requests over the limit wait in a
+   * FIFO queue instead of being sent and rejected with 429.
+   */
+  rateLimit?: RateLimitOptions;
+  /** Receives log lines; defaults to `console`. */
+  logger?: Logger;
+  /** Minimum level logged; defaults to the WATERLIGHT_LOG env var, else 'off'. */
+  logLevel?: LogLevel;
+  /** Called with every lifecycle event regardless of logLevel — hook tracing spans in here. */
+  onEvent?: ClientEventHandler;
+  /** Replace message content and embedding input with "[REDACTED]" in logs and events. */
+  redactContent?: boolean;
+  /**
+   * Opt-in response cache for chat completions (including streams),
+   * embeddings and models.list. `true` uses an in-memory LRU with no TTL.
+   */
+  cache?: CacheOptions | true;
+  /**
+   * Opt-in spending limits: chat and embeddings requests are priced before
+   * they are sent and refused with SpendLimitError if they would exceed the
+   * local `budget` or the account's remaining balance or daily limit.
+   */
+  spendGuard?: SpendGuardOptions;
+  /**
+   * Opt-in usage accounting per model and tag (see UsageTracker). Streamed
+   * chat requests then ask for usage with `stream_options.include_usage`
+   * unless `stream_options` is set. `true` prices with the spend guard's table.
+   */
+  usage?: UsageTrackerOptions | true;
+  /**
+   * Opt-in model registry: models.list() results are reused for `ttl`, and
+   * with `validate` requests for unknown or disallowed models, or using
+   * features their model lacks, fail with ModelValidationError unsent.
+   * `true` caches for 5 minutes without validating.
+   */
+  modelRegistry?: ModelRegistryOptions | true;
+  /**
+   * Opt-in failover for chat completions: when a request fails with a 5xx,
+   * timeout, network error or rate limit after its retries, it is sent to
+   * the next endpoint in `baseUrls`, then the next model in `models`.
+   * Failing targets are skipped for a cool-down, and the target that served
+   * a request is reported in its `route`.
+   */
+  failover?: FailoverOptions;
 }
 
 /** Chat completions namespace. */
@@ -46,21 +169,124 @@ class Completions {
    * Create a chat completion.
    *
    * @param params - Chat completion parameters
+   * @param options - Per-request overrides (signal, timeout, headers, ...)
    * @returns ChatCompletion if stream is false/undefined, Stream if stream is true
    */
-  create(params: ChatCompletionCreateParams & { stream: true }): Stream;
-  create(params: ChatCompletionCreateParams & { stream?: false }): Promise<ChatCompletion>;
-  create(params: ChatCompletionCreateParams): Promise<ChatCompletion> | Stream;
-  create(params: ChatCompletionCreateParams): Promise<ChatCompletion> | Stream {
+  create(params: ChatCompletionCreateParams & { stream: true }, options?: RequestOptions): Stream;
+  create(params: ChatCompletionCreateParams & { stream?: false }, options?: RequestOptions): Promise<ChatCompletion>;
+  create(params: ChatCompletionCreateParams, options?: RequestOptions): Promise<ChatCompletion> | Stream;
+  create(params: ChatCompletionCreateParams, options: RequestOptions = {}): Promise<ChatCompletion> | Stream {
     if (params.stream) {
-      return new Stream(
-        `${this.client.baseUrl}/v1/chat/completions`,
-        this.client.apiKey,
-        params,
-        this.client.timeout,
-      );
+      const trackUsage = this.client.usage && params.stream_options === undefined;
+      return this.client['_stream']('/v1/chat/completions', {
+        ...params,
+        stream: true,
+        ...(trackUsage ? { stream_options: { include_usage: true } } : {}),
+      }, options);
     }
-    return this.client['_post']('/v1/chat/completions', { ...params, stream: false });
+    return this.createCompletion({ ...params, stream: false }, options);
+  }
+
+  private async createCompletion(body: ChatCompletionCreateParams, options: RequestOptions): Promise<ChatCompletion> {
+    const path = '/v1/chat/completions';
+    // The route is added to the returned copy only, so a cached completion doesn't replay it.
+    let route: RouteInfo | undefined;
+    const completion = await this.client['_cached']('POST', path, body, options, async () => {
+      const result = await this.client['_route'](path, body, options, (b, baseUrl) =>
+        this.client['_send']<ChatCompletion>('POST', path, b, options, async res => await res.json(), { baseUrl }));
+      route = result.route;
+      return result.value;
+    });
+    return route ? { ...completion, route } : completion;
+  }
+
+  /**
+   * Create a completion constrained by `response_format` and return it with
+   * each choice's content parsed as JSON. For `json_schema` formats the
+   * result is validated against the schema and typed from it.
+   *
+   * @throws StructuredOutputError on refusal, truncation (`finish_reason:
+   *   'length'`), content filtering, invalid JSON or schema violations
+   *
+   * @example
+   * ```ts
+   * const completion = await client.chat.completions.parse({
+   *   model: 'mist-1-turbo',
+   *   messages: [{ role: 'user', content: 'Extract: Ada, 36' }],
+   *   response_format: {
+   *     type: 'json_schema',
+   *     json_schema: {
+   *       name: 'person',
+   *       schema: {
+   *         type: 'object',
+   *         properties: { name: { type: 'string' }, age: { type: 'integer' } },
+   *         required: ['name', 'age'],
+   *       },
+   *     },
+   *   },
+   * });
+   * completion.choices[0].message.parsed.age; // number
+   * ```
+   */
+  parse<const S extends JSONSchema>(
+    params: ChatCompletionParseParams & { response_format: { type: 'json_schema'; json_schema: JSONSchemaFormat<S> } },
+    options?: RequestOptions,
+  ): Promise<ParsedChatCompletion<FromSchema<S>>>;
+  parse(params: ChatCompletionParseParams, options?: RequestOptions): Promise<ParsedChatCompletion<unknown>>;
+  async parse(params: ChatCompletionParseParams, options?: RequestOptions): Promise<ParsedChatCompletion<unknown>> {
+    const completion = await this.create({ ...params, stream: false }, options);
+    const format = params.response_format;
+    const schema = format.type === 'json_schema' ? format.json_schema.schema : undefined;
+
+    const choices = completion.choices.map(choice => {
+      const { message, finish_reason } = choice;
+      if (message.refusal) {
+        throw new StructuredOutputError(`Model refused: ${message.refusal}`, 'refusal', completion);
+      }
+      if (finish_reason === 'length') {
+        throw new StructuredOutputError('Output was truncated (finish_reason: length); raise max_tokens', 'length', completion);
+      }
+      if (finish_reason === 'content_filter') {
+        throw new StructuredOutputError('Output was blocked by the content filter', 'content_filter', completion);
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(message.content ?? '');
+      } catch {
+        throw new StructuredOutputError('Response content is not valid JSON', 'invalid_json', completion);
+      }
+      if (schema) {
+        const errors = validateSchema(schema, parsed);
+        if (errors.length) {
+          throw new StructuredOutputError(`Response does not match schema: ${errors.join('; ')}`, 'validation', completion, errors);
+        }
+      }
+      return { ...choice, message: { ...message, parsed } };
+    });
+    return { ...completion, choices };
+  }
+
+  /**
+   * Run a tool-calling loop: tools are executed with their handlers and the
+   * results fed back until the model produces a final answer.
+   *
+   * @example
+   * ```ts
+   * const runner = client.chat.completions.runTools({
+   *   model: 'mist-1-turbo',
+   *   messages: [{ role: 'user', content: "What's the weather in Austin?" }],
+   *   tools: [{
+   *     type: 'function',
+   *     function: { name: 'get_weather', parameters: { type: 'object', properties: { location: { type: 'string' } } } },
+   *     handler: async ({ location }) => fetchWeather(location),
+   *   }],
+   * });
+   * runner.on('toolCall', call => console.log('calling', call.function.name));
+   * console.log(await runner.finalContent());
+   * ```
+   */
+  runTools(params: RunToolsParams, options?: RequestOptions): ToolRunner {
+    return new ToolRunner((p, o) => this.create(p, o), params, options);
   }
 }
 
@@ -76,8 +302,43 @@ class Chat {
 class Embeddings {
   constructor(private readonly client: Waterlight) {}
 
-  async create(params: EmbeddingCreateParams): Promise<EmbeddingResponse> {
-    return this.client['_post']('/v1/embeddings', params);
+  /**
+   * Create embeddings. With `encoding_format: 'base64'` the vectors are
+   * decoded to Float32Array.
+   */
+  create(params: EmbeddingCreateParams & { encoding_format: 'base64' }, options?: RequestOptions): Promise<EmbeddingResponse<Float32Array>>;
+  create(params: EmbeddingCreateParams, options?: RequestOptions): Promise<EmbeddingResponse>;
+  async create(params: EmbeddingCreateParams, options?: RequestOptions): Promise<EmbeddingResponse<number[] | Float32Array>> {
+    const response = await this.client['_cached']('POST', '/v1/embeddings', params, options, () =>
+      this.client['_post']<EmbeddingResponse<number[] | string>>('/v1/embeddings', params, options));
+    if (params.encoding_format !== 'base64') return response as EmbeddingResponse;
+    return {
+      ...response,
+      data: response.data.map(item => ({
+        ...item,
+        embedding: typeof item.embedding === 'string' ? decodeEmbedding(item.embedding) : Float32Array.from(item.embedding),
+      })),
+    };
+  }
+
+  /**
+   * Embed any number of inputs: split into server-sized batches, sent with
+   * bounded concurrency, and merged back in input order with summed usage.
+   *
+   * @example
+   * ```ts
+   * const { data } = await client.embeddings.createMany({
+   *   input: documents,
+   *   encoding_format: 'base64',
+   *   concurrency: 8,
+   *   onProgress: (done, total) => console.log(`${done}/${total}`),
+   * });
+   * ```
+   */
+  createMany(params: EmbeddingBatchParams & { encoding_format: 'base64' }, options?: RequestOptions): Promise<EmbeddingResponse<Float32Array>>;
+  createMany(params: EmbeddingBatchParams, options?: RequestOptions): Promise<EmbeddingResponse>;
+  createMany(params: EmbeddingBatchParams, options?: RequestOptions): Promise<EmbeddingResponse<number[] | Float32Array>> {
+    return createEmbeddingsInBatches((p, o) => this.create(p, o), params, options);
   }
 }
 
@@ -85,8 +346,123 @@ class Embeddings {
 class Models {
   constructor(private readonly client: Waterlight) {}
 
-  async list(): Promise<ModelList> {
-    return this.client['_get']('/v1/models');
+  /** Available models; reused for the registry's TTL when `modelRegistry` is configured. */
+  async list(options?: RequestOptions): Promise<ModelList> {
+    return this.client.modelRegistry ? this.client.modelRegistry.list(options) : this.client['_listModels'](options);
+  }
+
+  /** One model by id, with whatever capability and pricing metadata the server sends. */
+  async retrieve(model: string, options?: RequestOptions): Promise<Model> {
+    const path = `/v1/models/${encodeURIComponent(model)}`;
+    return this.client['_cached']('GET', path, undefined, options, () => this.client['_get']<Model>(path, options));
+  }
+}
+
+/** Files namespace: uploads for batches and other endpoints. */
+class Files {
+  constructor(private readonly client: Waterlight) {}
+
+  /** Upload a file (sent as multipart form data). */
+  async create(params: FileCreateParams, options?: RequestOptions): Promise<FileObject> {
+    return this.client['_post']('/v1/files', await fileForm(params), options);
+  }
+
+  async retrieve(fileId: string, options?: RequestOptions): Promise<FileObject> {
+    return this.client['_get'](`/v1/files/${encodeURIComponent(fileId)}`, options);
+  }
+
+  async list(params: FileListParams = {}, options?: RequestOptions): Promise<FileList> {
+    return this.client['_get']('/v1/files', { ...options, query: { ...params, ...options?.query } });
+  }
+
+  async delete(fileId: string, options?: RequestOptions): Promise<FileDeleted> {
+    return this.client['_request']('DELETE', `/v1/files/${encodeURIComponent(fileId)}`, undefined, options);
+  }
+
+  /** The file's contents as the raw Response; read it with `text()`, `arrayBuffer()` or `body`. */
+  async content(fileId: string, options: RequestOptions = {}): Promise<Response> {
+    return this.client['_send']('GET', `/v1/files/${encodeURIComponent(fileId)}/content`, undefined, options, async res => res);
+  }
+}
+
+/** Batches namespace: many requests run asynchronously, at a discount, within a completion window. */
+class Batches {
+  constructor(private readonly client: Waterlight) {}
+
+  async create(params: BatchCreateParams, options?: RequestOptions): Promise<Batch> {
+    return this.client['_post']('/v1/batches', params, options);
+  }
+
+  async retrieve(batchId: string, options?: RequestOptions): Promise<Batch> {
+    return this.client['_get'](`/v1/batches/${encodeURIComponent(batchId)}`, options);
+  }
+
+  async list(params: BatchListParams = {}, options?: RequestOptions): Promise<BatchList> {
+    return this.client['_get']('/v1/batches', { ...options, query: { ...params, ...options?.query } });
+  }
+
+  /** Stop a batch; it passes through `cancelling` to `cancelled`, keeping the results already produced. */
+  async cancel(batchId: string, options?: RequestOptions): Promise<Batch> {
+    return this.client['_request']('POST', `/v1/batches/${encodeURIComponent(batchId)}/cancel`, undefined, options);
+  }
+
+  /**
+   * Check a batch's status, waiting longer between checks each time, until
+   * it is completed, failed, expired or cancelled. Aborting `signal` stops
+   * waiting but leaves the batch running.
+   */
+  async poll(batchId: string, options: BatchPollOptions = {}): Promise<Batch> {
+    const { pollInterval = 5_000, maxPollInterval = 60_000, onProgress, ...request } = options;
+    let delay = pollInterval;
+    while (true) {
+      const batch = await this.retrieve(batchId, request);
+      onProgress?.(batch);
+      if (FINAL_BATCH_STATUSES.has(batch.status)) return batch;
+      await sleep(delay, request.signal);
+      delay = Math.min(delay * 1.5, maxPollInterval);
+    }
+  }
+
+  /**
+   * Run chat requests as one batch: upload them as a JSONL input file,
+   * create the batch, poll until it finishes, and download its output and
+   * error files. Each request's `custom_id` (default `request-<index>`)
+   * keys its result.
+   *
+   * @throws WaterlightError if the batch fails (e.g. its input is rejected)
+   *
+   * @example
+   * ```ts
+   * const { results } = await client.batches.runChatCompletions(
+   *   reviews.map((text, i) => ({ custom_id: `review-${i}`, model: 'mist-1-turbo', messages: [{ role: 'user', content: text }] })),
+   *   { onProgress: b => console.log(b.status, b.request_counts) },
+   * );
+   * console.log(results['review-0'].response?.choices[0].message.content);
+   * ```
+   */
+  async runChatCompletions(requests: BatchChatRequest[], options: BatchRunOptions = {}): Promise<BatchRunResult> {
+    const { metadata, ...poll } = options;
+    const { pollInterval, maxPollInterval, onProgress, ...request } = poll;
+    const file = await this.client.files.create(
+      { file: new Blob([toBatchJSONL(requests)]), filename: 'batch.jsonl', purpose: 'batch' },
+      request,
+    );
+    const created = await this.create(
+      { input_file_id: file.id, endpoint: '/v1/chat/completions', completion_window: '24h', ...(metadata ? { metadata } : {}) },
+      request,
+    );
+    const batch = await this.poll(created.id, poll);
+    if (batch.status === 'failed') {
+      const reasons = batch.errors?.data.map(e => (e.line ? `line ${e.line}: ${e.message}` : e.message)).join('; ');
+      throw new WaterlightError(`Batch ${batch.id} failed${reasons ? `: ${reasons}` : ''}`);
+    }
+    const results: Record<string, BatchResult> = {};
+    for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+      if (!fileId) continue;
+      const res = await this.client.files.content(fileId, request);
+      Object.assign(results, parseBatchOutput(await res.text()));
+    }
+    return { batch, results };
   }
 }
 
@@ -113,8 +489,8 @@ export interface BillingInfo {
 class Billing {
   constructor(private readonly client: Waterlight) {}
 
-  async get(): Promise<BillingInfo> {
-    return this.client['_get']('/v1/billing');
+  async get(options?: RequestOptions): Promise<BillingInfo> {
+    return this.client['_get']('/v1/billing', options);
   }
 }
 
@@ -151,16 +527,40 @@ export class Waterlight {
   readonly baseUrl: string;
   readonly timeout: number;
   readonly maxRetries: number;
+  readonly idleTimeout: number;
+  readonly totalTimeout: number;
+  private readonly _fetch: typeof fetch;
+  private readonly _defaultHeaders: Record<string, string>;
+  private readonly _fetchOptions: Record<string, unknown>;
+  private readonly _middleware: Middleware[];
+  private readonly _events: EventSink;
+  /** Present when `rateLimit` was configured. */
+  readonly rateLimiter?: RateLimiter;
+  private _rateLimitInit?: () => Promise<void>;
+  /** Present when `spendGuard` was configured. */
+  readonly spendGuard?: SpendGuard;
+  /** Present when `usage` was configured. */
+  readonly usage?: UsageTracker;
+  /** Present when `modelRegistry` was configured. */
+  readonly modelRegistry?: ModelRegistry;
+  /** Present when `failover` was configured; exposes the health of each target. */
+  readonly failover?: FailoverRouter;
+  private readonly _cache?: ResponseCache;
 
   readonly chat: Chat;
   readonly embeddings: Embeddings;
   readonly models: Models;
+  readonly files: Files;
+  readonly batches: Batches;
   readonly billing: Billing;
 
+  /** Storage of the response cache, when `cache` was configured (e.g. to clear it). */
+  get cacheStore(): CacheStore | undefined { return this._cache?.store; }
+
   /** Access the API key (prefer using the client methods instead). */
   get apiKey(): string { return this._apiKey; }
 
-  constructor(opts: { apiKey?: string; baseUrl?: string; timeout?: number; maxRetries?: number } = {}) {
+  constructor(opts: ClientOptions = {}) {
     const key = opts.apiKey ?? process.env.WATERLIGHT_API_KEY;
     if (!key) {
       throw new WaterlightError(
@@ -169,65 +569,338 @@ export class Waterlight {
       );
     }
     this._apiKey = key;
-    const resolvedUrl = (opts.baseUrl ?? process.env.WATERLIGHT_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
-    if (!resolvedUrl.startsWith('https://') && !resolvedUrl.startsWith('http://localhost') && !resolvedUrl.startsWith('http://127.0.0.1')) {
-      throw new WaterlightError(
-        `baseUrl must use HTTPS (got: ${resolvedUrl.slice(0, 40)}...). HTTP is only allowed for localhost development.`,
-      );
-    }
-    this.baseUrl = resolvedUrl;
+    this.baseUrl = resolveBaseUrl(opts.baseUrl ?? process.env.WATERLIGHT_BASE_URL ?? DEFAULT_BASE_URL);
     this.timeout = opts.timeout ?? DEFAULT_TIMEOUT;
     this.maxRetries = opts.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.idleTimeout = opts.idleTimeout ?? this.timeout;
+    this.totalTimeout = opts.totalTimeout ?? 0;
+    // Resolved per call so a fetch stubbed after construction is still used.
+    this._fetch = opts.fetch ?? ((input, init) => fetch(input, init));
+    this._defaultHeaders = opts.defaultHeaders ?? {};
+    this._fetchOptions = opts.fetchOptions ?? {};
+    this._middleware = [...(opts.middleware ?? [])];
+    if (opts.rateLimit) {
+      const { rpm, tpm, auto } = opts.rateLimit;
+      this.rateLimiter = new RateLimiter({ rpm, tpm });
+      if (auto) this._rateLimitInit = this._autoConfigureRateLimit(rpm, tpm);
+    }
+    if (opts.spendGuard) this.spendGuard = new SpendGuard(opts.spendGuard, () => this._loadBilling());
+    if (opts.usage) this.usage = new UsageTracker({ prices: opts.spendGuard?.prices, ...(opts.usage === true ? {} : opts.usage) });
+    if (opts.modelRegistry) {
+      this.modelRegistry = new ModelRegistry(
+        opts.modelRegistry === true ? {} : opts.modelRegistry,
+        options => this._listModels(options),
+        () => this._loadBilling(),
+      );
+    }
+    if (opts.failover) {
+      this.failover = new FailoverRouter({ ...opts.failover, baseUrls: opts.failover.baseUrls?.map(resolveBaseUrl) }, this.baseUrl);
+    }
+    if (opts.cache) this._cache = new ResponseCache(opts.cache === true ? {} : opts.cache);
+    this._events = new EventSink(key, opts.logger ?? console, resolveLogLevel(opts.logLevel), opts.onEvent, opts.redactContent);
 
     this.chat = new Chat(this);
     this.embeddings = new Embeddings(this);
     this.models = new Models(this);
+    this.files = new Files(this);
+    this.batches = new Batches(this);
     this.billing = new Billing(this);
   }
 
-  private async _post<T>(path: string, body: object): Promise<T> {
-    return this._request<T>('POST', path, body);
+  /**
+   * Append a middleware to the chain wrapping every HTTP attempt. Middleware
+   * added first runs outermost.
+   */
+  use(middleware: Middleware): this {
+    this._middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Returns a function that, on first call, loads rpm/tpm limits from
+   * billing and applies those not set explicitly. Failures leave the
+   * explicit limits (if any) in place and are not retried.
+   */
+  private _autoConfigureRateLimit(rpm?: number, tpm?: number): () => Promise<void> {
+    let loading: Promise<void> | undefined;
+    return () => loading ??= this._loadBilling()
+      .then(info => this.rateLimiter!.configure({ rpm: rpm ?? info.rpm_limit, tpm: tpm ?? info.tpm_limit }))
+      .catch(() => {});
+  }
+
+  /** Billing for internal use, outside the rate limiter so it never queues behind the requests it configures. */
+  private _loadBilling(): Promise<BillingInfo> {
+    return this._send<BillingInfo>('GET', '/v1/billing', undefined, {}, async res => await res.json(), { skipRateLimit: true });
+  }
+
+  private _listModels(options?: RequestOptions): Promise<ModelList> {
+    return this._cached('GET', '/v1/models', undefined, options, () => this._get<ModelList>('/v1/models', options));
+  }
+
+  private async _post<T>(path: string, body: object, options?: RequestOptions): Promise<T> {
+    return this._request<T>('POST', path, body, options);
+  }
+
+  private async _get<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this._request<T>('GET', path, undefined, options);
+  }
+
+  private _buildUrl(path: string, query?: RequestOptions['query'], baseUrl = this.baseUrl): string {
+    const url = `${baseUrl}${path}`;
+    if (!query) return url;
+    const search = new URLSearchParams();
+    for (const [k, v] of Object.entries(query)) {
+      if (v !== undefined) search.append(k, String(v));
+    }
+    const qs = search.toString();
+    return qs ? `${url}?${qs}` : url;
+  }
+
+  private async _request<T>(method: string, path: string, body?: object, options: RequestOptions = {}): Promise<T> {
+    return this._send(method, path, body, options, async res => await res.json() as T);
+  }
+
+  /** Open an SSE stream; the returned Stream connects lazily on first read. */
+  private _stream(path: string, body: ChatCompletionCreateParams, options: RequestOptions): Stream {
+    const headers = { 'Accept': 'text/event-stream', ...options.headers };
+    const cacheKey = this._cache?.keyFor({ method: 'POST', path, url: this._buildUrl(path, options.query), body }, options.cache);
+    let replayed = false;
+    let connected = false;
+    let started = 0;
+    let attempt = 0;
+    let requestId: string | undefined;
+    let reservation: RateLimitReservation | undefined;
+    let spend: SpendReservation | undefined;
+    const stream: Stream = new Stream(
+      async signal => {
+        started = Date.now();
+        const hit = cacheKey ? await this._cache!.get(cacheKey) : undefined;
+        if (hit) {
+          replayed = true;
+          stream.cache = hit.info;
+          return sseResponse(completionToChunks(hit.value as ChatCompletion));
+        }
+        const { value, route } = await this._route(path, body, options, (b, baseUrl) =>
+          this._send('POST', path, b, { ...options, headers, signal }, async (res, ctx) => {
+            attempt = ctx.attempt;
+            reservation = ctx.reservation;
+            spend = ctx.spend;
+            requestId = res.headers.get('x-request-id') ?? undefined;
+            connected = true;
+            return res;
+          }, { baseUrl }));
+        stream.route = route;
+        return value;
+      },
+      {
+        idleTimeout: options.idleTimeout ?? this.idleTimeout,
+        totalTimeout: options.totalTimeout ?? this.totalTimeout,
+        signal: options.signal,
+        onEvent: e => {
+          const latencyMs = Date.now() - started;
+          if (e.type === 'first_chunk') {
+            this._events.emit({ type: 'stream.first_chunk', method: 'POST', path, attempt, latencyMs, requestId });
+          } else if (e.type === 'end') {
+            reservation?.reconcile(e.completion.usage?.total_tokens);
+            spend?.reconcile(e.completion.usage);
+            if (!replayed) this._recordUsage(path, body, options, latencyMs, e.completion);
+            // Without usage it would not pass for a non-streaming response, which shares the key.
+            if (cacheKey && !replayed && e.completion.usage) {
+              this._cache!.set(cacheKey, e.completion).then(info => { stream.cache = info; });
+            }
+            this._events.emit({ type: 'stream.end', method: 'POST', path, attempt, latencyMs, chunks: e.chunks, requestId, usage: e.completion.usage });
+          } else if (connected && !replayed) {
+            // _send has already returned for this request, so a failure after the headers is recorded here.
+            this._recordUsage(path, body, options, latencyMs, { usage: e.completion.usage }, true);
+            this._events.emit({
+              type: 'error', method: 'POST', path, attempt, error: e.error, latencyMs, requestId,
+              status: e.error instanceof WaterlightError ? e.error.status : undefined,
+            });
+          }
+        },
+      },
+    );
+    return stream;
+  }
+
+  /**
+   * Send a chat request via the failover router, if configured: `send` gets
+   * the body with each target's model and the target's base URL in turn
+   * until one succeeds. Without failover, `send` is called once as-is.
+   */
+  private async _route<B extends { model: string }, T>(
+    path: string,
+    body: B,
+    options: RequestOptions,
+    send: (body: B, baseUrl?: string) => Promise<T>,
+  ): Promise<{ value: T; route?: RouteInfo }> {
+    if (!this.failover) return { value: await send(body) };
+    let failures = 0;
+    return this.failover.run(
+      body.model,
+      options.fallbackModels,
+      target => send({ ...body, model: target.model }, target.baseUrl),
+      (target, error) => this._events.emit({
+        type: 'failover', method: 'POST', path, attempt: failures++, model: target.model, baseUrl: target.baseUrl, error, status: error.status,
+      }),
+    );
+  }
+
+  /**
+   * Serve a request from the response cache when enabled and allowed for
+   * it, otherwise `send` it and store the result. The stored value is the
+   * response as received; `cache` metadata is added to the returned copy.
+   */
+  private async _cached<T extends object>(
+    method: string,
+    path: string,
+    body: object | undefined,
+    options: RequestOptions = {},
+    send: () => Promise<T>,
+  ): Promise<T> {
+    const key = this._cache?.keyFor({ method, path, url: this._buildUrl(path, options.query), body }, options.cache);
+    if (!key) return send();
+    const hit = await this._cache!.get(key);
+    if (hit) return { ...(hit.value as T), cache: hit.info };
+    const value = await send();
+    return { ...value, cache: await this._cache!.set(key, value) };
   }
 
-  private async _get<T>(path: string): Promise<T> {
-    return this._request<T>('GET', path);
+  /** Add a chat or embeddings request to the usage tracker; `result` is absent for failures. */
+  private _recordUsage(
+    path: string,
+    body: object | undefined,
+    options: RequestOptions,
+    latencyMs: number,
+    result?: { model?: string; usage?: Partial<Usage> },
+    error = !result,
+  ): void {
+    if (!this.usage || !BILLABLE_PATHS.has(path)) return;
+    const { model, user } = (body ?? {}) as { model?: string; user?: string };
+    this.usage.record({
+      path,
+      model: result?.model ?? model ?? 'unknown',
+      tag: options.tag ?? user,
+      usage: result?.usage,
+      latencyMs,
+      error,
+    });
   }
 
-  private async _request<T>(method: string, path: string, body?: object): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
+  /**
+   * Send a request, retrying RETRYABLE_STATUS responses with backoff, and
+   * hand the first OK response to `read`. Non-OK responses are mapped to
+   * typed errors by makeStatusError. Shared by JSON calls and Stream.
+   */
+  private async _send<T>(
+    method: string,
+    path: string,
+    body: object | undefined,
+    options: RequestOptions,
+    read: (res: Response, ctx: { attempt: number; reservation?: RateLimitReservation; spend?: SpendReservation }) => Promise<T>,
+    internal: { skipRateLimit?: boolean; baseUrl?: string } = {},
+  ): Promise<T> {
+    const url = this._buildUrl(path, options.query, internal.baseUrl);
+    const limiter = internal.skipRateLimit ? undefined : this.rateLimiter;
+    if (limiter && this._rateLimitInit) await this._rateLimitInit();
+    const estimate = limiter ? estimateRequestTokens(body) : 0;
+    await this.modelRegistry?.validate(path, body);
+    const spend = await this.spendGuard?.reserve(path, body);
+    const started = Date.now();
+    const events = this._events;
+    const timeout = options.timeout ?? this.timeout;
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+    const { signal } = options;
     let attempt = 0;
     while (true) {
+      let reservation: RateLimitReservation | undefined;
+      try {
+        reservation = limiter ? await limiter.acquire(estimate, signal) : undefined;
+        if (signal?.aborted) throw new APIUserAbortError();
+      } catch (e) {
+        // Aborted while queued: nothing was sent, so nothing is spent.
+        reservation?.reconcile(0);
+        spend?.reconcile(null);
+        throw e;
+      }
       const controller = new AbortController();
-      const timer = setTimeout(() => controller.abort(), this.timeout);
+      const timer = setTimeout(() => controller.abort(), timeout);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
       try {
-        const res = await fetch(url, {
+        const send = composeMiddleware(this._middleware, req => {
+          if (events.verbose) {
+            events.emit({ type: 'request', method: req.method, path, attempt, url: req.url, ...events.redactRequest(req.headers, req.body) });
+          }
+          return this._fetch(req.url, {
+            ...this._fetchOptions,
+            method: req.method,
+            headers: req.headers,
+            ...(req.body ? { body: req.body instanceof FormData ? req.body : JSON.stringify(req.body) } : {}),
+            signal: req.signal,
+          });
+        });
+        const res = await send({
           method,
+          path,
+          url,
           headers: {
             'Authorization': `Bearer ${this.apiKey}`,
-            ...(body ? { 'Content-Type': 'application/json' } : {}),
+            // fetch sets the multipart Content-Type, boundary included, for FormData.
+            ...(body && !(body instanceof FormData) ? { 'Content-Type': 'application/json' } : {}),
             'User-Agent': 'waterlight-node/0.2.1',
+            ...this._defaultHeaders,
+            ...options.headers,
           },
-          ...(body ? { body: JSON.stringify(body) } : {}),
+          body,
+          attempt,
           signal: controller.signal,
         });
         clearTimeout(timer);
+        limiter?.updateFromHeaders(res.headers);
         if (!res.ok) {
-          if (RETRYABLE_STATUS.has(res.status) && attempt < this.maxRetries) {
+          reservation?.reconcile(0);
+          if (RETRYABLE_STATUS.has(res.status) && attempt < maxRetries) {
             const retryAfter = res.headers.get('retry-after');
             const delay = retryAfter ? parseFloat(retryAfter) * 1000 : 500 * 2 ** attempt;
-            await sleep(delay);
+            events.emit({
+              type: 'retry', method, path, attempt, status: res.status, delayMs: delay,
+              requestId: res.headers.get('x-request-id') ?? undefined,
+            });
+            await sleep(delay, signal);
             attempt++;
             continue;
           }
           const data: any = await res.json().catch(() => ({}));
-          handleError(res.status, data, res.headers);
+          throw makeStatusError(res.status, data, res.headers);
         }
-        return await res.json() as T;
+        const result = await read(res, { attempt, reservation, spend });
+        const usage = (result as { usage?: Usage } | undefined)?.usage;
+        reservation?.reconcile(usage?.total_tokens);
+        spend?.reconcile(usage);
+        // Streams are recorded by _stream once their usage arrives.
+        if (!(body as { stream?: boolean } | undefined)?.stream) this._recordUsage(path, body, options, Date.now() - started, result as object);
+        events.emit({
+          type: 'response', method, path, attempt, status: res.status, latencyMs: Date.now() - started,
+          requestId: res.headers.get('x-request-id') ?? undefined, usage,
+        });
+        return result;
       } catch (e: any) {
         clearTimeout(timer);
-        if (e instanceof WaterlightError) throw e;
-        if (e?.name === 'AbortError') throw new APIError('Request timed out', 408);
-        throw new APIError(`Network error: ${e?.message ?? e}`, 0);
+        reservation?.reconcile(0);
+        spend?.reconcile(null);
+        this._recordUsage(path, body, options, Date.now() - started);
+        const error = e instanceof WaterlightError ? e
+          : signal?.aborted ? new APIUserAbortError()
+          : e?.name === 'AbortError' ? new APIError('Request timed out', 408)
+          : new APIError(`Network error: ${e?.message ?? e}`, 0);
+        events.emit({
+          type: 'error', method, path, attempt, error, status: error.status,
+          latencyMs: Date.now() - started, requestId: error.requestId,
+        });
+        throw error;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
       }
     }
   }
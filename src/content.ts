@@ -0,0 +1,127 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import type { AudioPart, ImagePart, Message, TextPart } from './types';
+import { WaterlightError } from './errors';
+
+/** A file path, raw bytes, or a Blob (including File). */
+export type MediaSource = string | Uint8Array | ArrayBuffer | Blob;
+
+export interface MediaOptions {
+  /** Skip detection and use this MIME type. */
+  mimeType?: string;
+  /** Largest accepted size in bytes, before base64 encoding. */
+  maxBytes?: number;
+}
+
+/** Images the API accepts, and the API's per-image limit. */
+const IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+/** Audio formats `input_audio` accepts, keyed by MIME type. */
+const AUDIO_FORMATS: Record<string, AudioPart['input_audio']['format']> = {
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+};
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+const EXTENSION_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+};
+
+/** A text part. */
+export function textPart(text: string): TextPart {
+  return { type: 'text', text };
+}
+
+/**
+ * An image part from a file path, bytes or Blob, inlined as a base64 data
+ * URL. Strings starting with `http(s):` or `data:` are used as the URL
+ * as-is. PNG, JPEG, GIF and WebP are accepted, up to 20 MB by default.
+ *
+ * @example
+ * ```ts
+ * await client.chat.completions.create({
+ *   model: 'mist-1-vision',
+ *   messages: [{ role: 'user', content: [textPart('Caption this.'), await imagePart('photo.jpg', { detail: 'low' })] }],
+ * });
+ * ```
+ */
+export async function imagePart(
+  source: MediaSource,
+  options: MediaOptions & { detail?: ImagePart['image_url']['detail'] } = {},
+): Promise<ImagePart> {
+  const { detail, ...media } = options;
+  const url = typeof source === 'string' && /^(https?|data):/i.test(source) ? source : await toDataURL(source, media);
+  if (url.startsWith('data:') && !IMAGE_TYPES.has(url.slice(5, url.indexOf(';')))) {
+    throw new WaterlightError(`Unsupported image type ${url.slice(5, url.indexOf(';'))}; use PNG, JPEG, GIF or WebP`);
+  }
+  return { type: 'image_url', image_url: detail ? { url, detail } : { url } };
+}
+
+/** An audio part from a file path, bytes or Blob. WAV and MP3 are accepted, up to 25 MB by default. */
+export async function audioPart(source: MediaSource, options: MediaOptions = {}): Promise<AudioPart> {
+  const { bytes, mimeType } = await loadMedia(source, options, MAX_AUDIO_BYTES);
+  const format = AUDIO_FORMATS[mimeType];
+  if (!format) throw new WaterlightError(`Unsupported audio type ${mimeType}; use WAV or MP3`);
+  return { type: 'input_audio', input_audio: { data: Buffer.from(bytes).toString('base64'), format } };
+}
+
+/**
+ * Read a file, bytes or Blob into a base64 `data:` URL. The MIME type is
+ * detected from the content, then the file extension or Blob type.
+ *
+ * @throws WaterlightError if the type can't be determined or the data is larger than `maxBytes`
+ */
+export async function toDataURL(source: MediaSource, options: MediaOptions = {}): Promise<string> {
+  const { bytes, mimeType } = await loadMedia(source, options, MAX_IMAGE_BYTES);
+  return `data:${mimeType};base64,${Buffer.from(bytes).toString('base64')}`;
+}
+
+/** MIME type from a file's leading bytes, for the image and audio formats the API accepts. */
+export function detectMimeType(bytes: Uint8Array): string | undefined {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav';
+  // ID3 tag, or an MPEG audio frame sync with layer III.
+  if (ascii(0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe6) === 0xe2)) return 'audio/mpeg';
+  return undefined;
+}
+
+/** The text of a message's content: the string itself, or its text parts joined by newlines. */
+export function contentText(content: Message['content']): string {
+  if (typeof content === 'string') return content;
+  return (content ?? []).filter((p): p is TextPart => p.type === 'text').map(p => p.text).join('\n');
+}
+
+async function loadMedia(source: MediaSource, options: MediaOptions, defaultMaxBytes: number): Promise<{ bytes: Uint8Array; mimeType: string }> {
+  const maxBytes = options.maxBytes ?? defaultMaxBytes;
+  let bytes: Uint8Array;
+  let hint: string | undefined;
+  if (typeof source === 'string') {
+    bytes = await readFile(source);
+    hint = EXTENSION_TYPES[extname(source).toLowerCase()];
+  } else if (source instanceof Blob) {
+    // Checked before reading so an oversized Blob is never loaded.
+    if (source.size > maxBytes) throw tooLarge(source.size, maxBytes);
+    bytes = new Uint8Array(await source.arrayBuffer());
+    hint = source.type || undefined;
+  } else {
+    bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+  }
+  if (bytes.byteLength > maxBytes) throw tooLarge(bytes.byteLength, maxBytes);
+  const mimeType = options.mimeType ?? detectMimeType(bytes) ?? hint;
+  if (!mimeType) throw new WaterlightError('Cannot detect the media type; pass mimeType');
+  return { bytes, mimeType };
+}
+
+function tooLarge(size: number, maxBytes: number): WaterlightError {
+  return new WaterlightError(`Media is ${size} bytes, over the ${maxBytes}-byte limit`);
+}
@@ -0,0 +1,318 @@
+import type { Waterlight } from './client';
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParams,
+  Message,
+  RequestOptions,
+  StreamedChatCompletion,
+} from './types';
+import type { Stream } from './streaming';
+import type { RunnableTool, ToolRunResult } from './tools';
+import { WaterlightError } from './errors';
+import { contentText } from './content';
+import { countMessageTokens, fitMessages } from './tokens';
+
+/** Request parameters a conversation sends with every turn. */
+export type ConversationParams = Omit<ChatCompletionCreateParams, 'messages' | 'stream'>;
+
+export interface TruncationContext {
+  client: Waterlight;
+  /** Parameters of the request about to be sent. */
+  params: ConversationParams;
+  /** Options of that request, e.g. its AbortSignal. */
+  options?: RequestOptions;
+}
+
+/**
+ * Shortens a history before it is sent. Receives the full history (system
+ * messages included) and returns the history to keep; the result replaces
+ * the conversation's stored messages.
+ */
+export type TruncationStrategy = (messages: Message[], context: TruncationContext) => Message[] | Promise<Message[]>;
+
+export interface ConversationOptions extends ConversationParams {
+  /** System prompt, stored as the first message. */
+  system?: string;
+  /** Initial history, e.g. from an earlier session. */
+  messages?: Message[];
+  /** Applied before every request; the history is left alone if omitted. */
+  truncation?: TruncationStrategy;
+}
+
+/** JSON form of a conversation, from `toJSON()` / `JSON.stringify(conversation)`. */
+export interface ConversationState {
+  version: 1;
+  params: ConversationParams;
+  messages: Message[];
+}
+
+/** A new user message, a full message, or several messages to append before a turn. */
+export type ConversationInput = string | Message | Message[];
+
+/**
+ * A chat session with managed history. Each turn appends the input and the
+ * assistant's reply (tool calls included) to `messages`; a failed turn
+ * leaves the history as it was. One turn may be in flight at a time.
+ *
+ * @example
+ * ```ts
+ * const chat = new Conversation(client, {
+ *   model: 'mist-1-turbo',
+ *   system: 'You are terse.',
+ *   truncation: fitToContext({ contextWindow: 32_000 }),
+ * });
+ * await chat.send('Name a prime.');
+ * const reply = await chat.send('Another one?');
+ * fs.writeFileSync('session.json', JSON.stringify(chat));
+ * ```
+ */
+export class Conversation {
+  private history: Message[];
+  private readonly params: ConversationParams;
+  private readonly truncation?: TruncationStrategy;
+  private busy = false;
+
+  constructor(private readonly client: Waterlight, options: ConversationOptions) {
+    const { system, messages = [], truncation, ...params } = options;
+    this.params = params;
+    this.truncation = truncation;
+    this.history = system !== undefined ? [{ role: 'system', content: system }, ...messages] : [...messages];
+  }
+
+  /** Restore a conversation saved with `toJSON()`. Strategies are functions, so pass `truncation` again. */
+  static fromJSON(
+    client: Waterlight,
+    state: ConversationState | string,
+    options: { truncation?: TruncationStrategy } = {},
+  ): Conversation {
+    const data: ConversationState = typeof state === 'string' ? JSON.parse(state) : state;
+    if (data?.version !== 1 || !Array.isArray(data.messages) || !data.params?.model) {
+      throw new WaterlightError('Invalid conversation state');
+    }
+    return new Conversation(client, { ...data.params, messages: data.messages, truncation: options.truncation });
+  }
+
+  /** The stored history, system messages included. */
+  get messages(): readonly Message[] {
+    return this.history;
+  }
+
+  /** The last assistant message, if any. */
+  get lastReply(): Message | undefined {
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      if (this.history[i].role === 'assistant') return this.history[i];
+    }
+    return undefined;
+  }
+
+  /** Append messages without sending, e.g. results of tool calls you ran yourself. */
+  append(...messages: Message[]): this {
+    this.history.push(...messages);
+    return this;
+  }
+
+  /** Append the result of one tool call from the last reply. */
+  addToolResult(toolCallId: string, content: unknown): this {
+    return this.append({
+      role: 'tool',
+      tool_call_id: toolCallId,
+      content: typeof content === 'string' ? content : JSON.stringify(content ?? null),
+    });
+  }
+
+  /** Drop all messages except system messages. */
+  clear(): this {
+    this.history = this.history.filter(m => m.role === 'system');
+    return this;
+  }
+
+  /**
+   * Append `input` (if any), request a completion and append its first
+   * choice. Call without input to continue after `addToolResult()`.
+   */
+  async send(input?: ConversationInput, params: Partial<ConversationParams> = {}, options?: RequestOptions): Promise<ChatCompletion> {
+    const { request, saved } = await this.begin(input, params, options);
+    try {
+      const completion = await this.client.chat.completions.create({ ...request, stream: false }, options);
+      this.finish(completion);
+      return completion;
+    } catch (e) {
+      this.rollback(saved);
+      throw e;
+    }
+  }
+
+  /**
+   * Like send(), but streams the reply. The assistant message is appended
+   * once the returned stream has been fully consumed. The conversation
+   * stays busy until then: to give up on the reply, call `stream.abort()`,
+   * which rolls the turn back.
+   *
+   * @example
+   * ```ts
+   * const stream = await chat.stream('Tell me a story');
+   * for await (const chunk of stream) process.stdout.write(chunk.choices[0]?.delta?.content ?? '');
+   * ```
+   */
+  async stream(input?: ConversationInput, params: Partial<ConversationParams> = {}, options?: RequestOptions): Promise<Stream> {
+    const { request, saved } = await this.begin(input, params, options);
+    let stream: Stream;
+    try {
+      stream = this.client.chat.completions.create({ ...request, stream: true }, options);
+    } catch (e) {
+      this.rollback(saved);
+      throw e;
+    }
+    // Settles when the caller finishes iterating (or calls finalChatCompletion()), or aborts the stream.
+    stream.settled().then(completion => this.finish(completion), () => this.rollback(saved));
+    return stream;
+  }
+
+  /**
+   * Run a tool-calling loop (see chat.completions.runTools) on this
+   * conversation and append every assistant and tool message it produces.
+   */
+  async runTools(
+    input: ConversationInput | undefined,
+    params: Partial<ConversationParams> & { tools: RunnableTool[]; maxIterations?: number; stream?: boolean },
+    options?: RequestOptions,
+  ): Promise<ToolRunResult> {
+    const { tools, maxIterations, stream, ...rest } = params;
+    const definitions = tools.map(({ type, function: fn }) => ({ type, function: fn }));
+    const { request, saved } = await this.begin(input, { ...rest, tools: definitions }, options);
+    try {
+      const result = await this.client.chat.completions.runTools({ ...request, tools, maxIterations, stream }, options).done();
+      this.history.push(...result.messages.slice(request.messages.length));
+      this.busy = false;
+      return result;
+    } catch (e) {
+      this.rollback(saved);
+      throw e;
+    }
+  }
+
+  toJSON(): ConversationState {
+    return { version: 1, params: this.params, messages: this.history };
+  }
+
+  private async begin(
+    input: ConversationInput | undefined,
+    params: Partial<ConversationParams>,
+    options?: RequestOptions,
+  ): Promise<{ request: ConversationParams & { messages: Message[] }; saved: Message[] }> {
+    if (this.busy) throw new WaterlightError('Conversation already has a request in flight');
+    this.busy = true;
+    const saved = this.history;
+    const merged = { ...this.params, ...params };
+    try {
+      let messages = [...saved, ...toMessages(input)];
+      if (this.truncation) {
+        messages = await this.truncation(messages, { client: this.client, params: merged, options });
+      }
+      this.history = messages;
+      return { request: { ...merged, messages: [...messages] }, saved };
+    } catch (e) {
+      this.rollback(saved);
+      throw e;
+    }
+  }
+
+  private finish(completion: ChatCompletion | StreamedChatCompletion): void {
+    const message = completion.choices[0]?.message;
+    if (message) this.history.push(message);
+    this.busy = false;
+  }
+
+  private rollback(saved: Message[]): void {
+    this.history = saved;
+    this.busy = false;
+  }
+}
+
+function toMessages(input: ConversationInput | undefined): Message[] {
+  if (input === undefined) return [];
+  if (typeof input === 'string') return [{ role: 'user', content: input }];
+  return Array.isArray(input) ? input : [input];
+}
+
+/**
+ * Truncation via fitMessages: drop the oldest messages (and if need be cut
+ * the newest) so the prompt plus the request's `max_completion_tokens` (or
+ * `max_tokens`) fits. The window limits each choice separately, so `n` is
+ * not counted.
+ */
+export function fitToContext(options: { contextWindow: number; maxTokens?: number }): TruncationStrategy {
+  return (messages, { params }) => fitMessages(messages, {
+    contextWindow: options.contextWindow,
+    maxTokens: params.max_completion_tokens ?? params.max_tokens ?? options.maxTokens,
+    tools: params.tools,
+  }).messages;
+}
+
+/**
+ * Keep system messages and the last `count` other messages. Tool results
+ * whose assistant tool-call message would be cut are dropped as well.
+ */
+export function keepLastMessages(count: number): TruncationStrategy {
+  return messages => {
+    const system = messages.filter(m => m.role === 'system');
+    const rest = messages.filter(m => m.role !== 'system');
+    let start = Math.max(0, rest.length - count);
+    while (start < rest.length && rest[start].role === 'tool') start++;
+    return [...system, ...rest.slice(start)];
+  };
+}
+
+export interface SummarizeOptions {
+  /** Summarise once the history's estimated prompt tokens exceed this. */
+  maxTokens: number;
+  /** Recent non-system messages kept verbatim (default 4). */
+  keepLast?: number;
+  /** Model used for the summary (default: the conversation's model). */
+  model?: string;
+  /** Instruction given to the summarising model. */
+  prompt?: string;
+}
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+const DEFAULT_SUMMARY_PROMPT =
+  'Summarise the conversation below for your own future reference. Keep names, decisions, facts and open ' +
+  'questions; omit pleasantries. Reply with the summary only.';
+
+/**
+ * Replace older messages with a model-written summary once the history
+ * grows past `maxTokens`. The summary is kept as a system message after the
+ * original system prompt, and costs one extra completion per summarisation.
+ */
+export function summarizeHistory(options: SummarizeOptions): TruncationStrategy {
+  const keepLast = options.keepLast ?? 4;
+  return async (messages, { client, params, options: requestOptions }) => {
+    if (countMessageTokens(messages, params.tools) <= options.maxTokens) return messages;
+    const isSummary = (m: Message) => m.role === 'system' && typeof m.content === 'string' && m.content.startsWith(SUMMARY_PREFIX);
+    const system = messages.filter(m => m.role === 'system' && !isSummary(m));
+    const rest = messages.filter(m => m.role !== 'system');
+    let cut = Math.max(0, rest.length - keepLast);
+    while (cut > 0 && rest[cut].role === 'tool') cut--;
+    if (cut === 0) return messages;
+
+    // An earlier summary is folded into the new one rather than kept alongside it.
+    const transcript = [...messages.filter(isSummary), ...rest.slice(0, cut)].map(formatForSummary).join('\n');
+    const completion = await client.chat.completions.create({
+      model: options.model ?? params.model,
+      messages: [
+        { role: 'system', content: options.prompt ?? DEFAULT_SUMMARY_PROMPT },
+        { role: 'user', content: transcript },
+      ],
+    }, { signal: requestOptions?.signal });
+    const summary = completion.choices[0]?.message.content;
+    if (!summary) throw new WaterlightError('Summarisation returned no content');
+    return [...system, { role: 'system', content: `${SUMMARY_PREFIX}\n${summary}` }, ...rest.slice(cut)];
+  };
+}
+
+function formatForSummary(message: Message): string {
+  const calls = (message.tool_calls ?? []).map(c => ` [called ${c.function.name}(${c.function.arguments})]`).join('');
+  const media = Array.isArray(message.content) ? message.content.filter(p => p.type !== 'text').map(p => ` [${p.type === 'image_url' ? 'image' : 'audio'}]`).join('') : '';
+  return `${message.role}: ${contentText(message.content)}${media}${calls}`;
+}
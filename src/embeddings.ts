@@ -0,0 +1,110 @@
+import type { EmbeddingCreateParams, EmbeddingResponse, RequestOptions, Usage } from './types';
+import { APIUserAbortError } from './errors';
+import { countTokens } from './tokens';
+
+/** Parameters for embeddings.createMany(). */
+export interface EmbeddingBatchParams extends Omit<EmbeddingCreateParams, 'input'> {
+  input: string[];
+  /** Most inputs per request (default 2048, the server's limit). */
+  batchSize?: number;
+  /** Most estimated tokens per request (default 300,000, the server's limit). */
+  maxBatchTokens?: number;
+  /** Requests in flight at once (default 4). */
+  concurrency?: number;
+  /** Called after each batch with the number of inputs embedded so far. */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+type CreateFn = (params: EmbeddingCreateParams, options?: RequestOptions) => Promise<EmbeddingResponse<number[] | Float32Array>>;
+
+const DEFAULT_BATCH_SIZE = 2048;
+const DEFAULT_MAX_BATCH_TOKENS = 300_000;
+const DEFAULT_CONCURRENCY = 4;
+
+/** Decode a little-endian float32 vector sent as base64 (`encoding_format: 'base64'`). */
+export function decodeEmbedding(base64: string): Float32Array {
+  const binary = atob(base64);
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) view.setUint8(i, binary.charCodeAt(i));
+  const out = new Float32Array(binary.length >> 2);
+  for (let i = 0; i < out.length; i++) out[i] = view.getFloat32(i * 4, true);
+  return out;
+}
+
+/** Split inputs into consecutive [start, end) ranges within both batch limits. */
+function planBatches(input: string[], batchSize: number, maxTokens: number): [number, number][] {
+  const batches: [number, number][] = [];
+  let start = 0;
+  let tokens = 0;
+  for (let i = 0; i < input.length; i++) {
+    const cost = countTokens(input[i]);
+    if (i > start && (i - start >= batchSize || tokens + cost > maxTokens)) {
+      batches.push([start, i]);
+      start = i;
+      tokens = 0;
+    }
+    tokens += cost;
+  }
+  if (start < input.length) batches.push([start, input.length]);
+  return batches;
+}
+
+/**
+ * Embed `params.input` in batches, at most `concurrency` requests at a
+ * time, each retried by the client as usual. The result has one entry per
+ * input in input order (`index` is the position in `params.input`) and the
+ * usage of all batches summed. The first failed batch rejects the call and
+ * aborts the batches still in flight.
+ */
+export async function createEmbeddingsInBatches(
+  create: CreateFn,
+  params: EmbeddingBatchParams,
+  options: RequestOptions = {},
+): Promise<EmbeddingResponse<number[] | Float32Array>> {
+  const {
+    input,
+    batchSize = DEFAULT_BATCH_SIZE,
+    maxBatchTokens = DEFAULT_MAX_BATCH_TOKENS,
+    concurrency = DEFAULT_CONCURRENCY,
+    onProgress,
+    ...rest
+  } = params;
+  const batches = planBatches(input, Math.max(1, batchSize), maxBatchTokens);
+  const data: EmbeddingResponse<number[] | Float32Array>['data'] = new Array(input.length);
+  const usage: Usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let model = params.model ?? '';
+  let completed = 0;
+
+  // Aborted by the caller or by the first failure, so no further batches start.
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  if (options.signal?.aborted) controller.abort();
+
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < batches.length) {
+      if (controller.signal.aborted) throw new APIUserAbortError();
+      const [start, end] = batches[next++];
+      const res = await create({ ...rest, input: input.slice(start, end) }, { ...options, signal: controller.signal });
+      for (const item of res.data) data[start + item.index] = { ...item, index: start + item.index };
+      model ||= res.model;
+      usage.prompt_tokens += res.usage?.prompt_tokens ?? 0;
+      usage.completion_tokens += res.usage?.completion_tokens ?? 0;
+      usage.total_tokens += res.usage?.total_tokens ?? 0;
+      completed += end - start;
+      onProgress?.(completed, input.length);
+    }
+  };
+
+  try {
+    const workers = Array.from({ length: Math.min(Math.max(1, concurrency), batches.length) }, worker);
+    await Promise.all(workers.map(w => w.catch(err => {
+      controller.abort();
+      throw err;
+    })));
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+  return { object: 'list', data, model, usage };
+}
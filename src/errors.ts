@@ -38,3 +38,103 @@ export class APIError extends WaterlightError {
     this.name = 'APIError';
   }
 }
+
+export class APIUserAbortError extends WaterlightError {
+  constructor(message: string = 'Request was aborted') {
+    super(message);
+    this.name = 'APIUserAbortError';
+  }
+}
+
+/** Raised by chat.completions.parse() when a response cannot be turned into the requested structure. */
+export class StructuredOutputError extends WaterlightError {
+  /** Why parsing failed: the model refused, hit a stop condition, or returned non-conforming JSON. */
+  readonly reason: 'refusal' | 'length' | 'content_filter' | 'invalid_json' | 'validation';
+  /** Schema violations, for reason 'validation'. */
+  readonly errors: string[];
+  /** The raw completion, for inspection. */
+  readonly completion: unknown;
+  constructor(
+    message: string,
+    reason: StructuredOutputError['reason'],
+    completion: unknown,
+    errors: string[] = [],
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.reason = reason;
+    this.completion = completion;
+    this.errors = errors;
+  }
+}
+
+/** Raised in cassette replay when a request has no matching recording. */
+export class CassetteError extends WaterlightError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteError';
+  }
+}
+
+/** Raised by the spend guard, before sending, for a request that would exceed a spending limit. */
+export class SpendLimitError extends WaterlightError {
+  /** Which limit: the client's local `budget`, the account's remaining `balance`, or its `daily` request limit. */
+  readonly limit: 'budget' | 'balance' | 'daily';
+  /** Estimated cost (USD) of the refused request. */
+  readonly estimatedCost: number;
+  /** What was left under that limit: USD for budget/balance, requests for daily. */
+  readonly remaining: number;
+  constructor(message: string, limit: SpendLimitError['limit'], estimatedCost: number, remaining: number) {
+    super(message);
+    this.name = 'SpendLimitError';
+    this.limit = limit;
+    this.estimatedCost = estimatedCost;
+    this.remaining = remaining;
+  }
+}
+
+/** Raised before sending, with `modelRegistry.validate` on, for a request the model list says cannot succeed. */
+export class ModelValidationError extends WaterlightError {
+  readonly model: string;
+  /** The model isn't listed, isn't in the account's `allowed_models`, or lacks a feature the request uses. */
+  readonly reason: 'unknown_model' | 'not_allowed' | 'unsupported_feature';
+  /** The missing capability, for reason 'unsupported_feature'. */
+  readonly feature?: string;
+  constructor(message: string, model: string, reason: ModelValidationError['reason'], feature?: string) {
+    super(message);
+    this.name = 'ModelValidationError';
+    this.model = model;
+    this.reason = reason;
+    this.feature = feature;
+  }
+}
+
+/** Raised by failover routing when every target for a request is cooling down after repeated failures. */
+export class CircuitOpenError extends WaterlightError {
+  /** Seconds until the first target accepts a trial request again. */
+  readonly retryAfter: number;
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'CircuitOpenError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Map an HTTP status and `{ error }` body to the matching error class.
+ * Used for failed responses and for `event: error` frames inside streams.
+ * @internal
+ */
+export function makeStatusError(status: number, body: any, headers?: Headers): WaterlightError {
+  const errObj = body?.error;
+  const msg: string = (typeof errObj === 'object' ? errObj?.message : errObj) ?? 'Request failed';
+  const requestId = headers?.get('x-request-id') ?? undefined;
+  if (status === 401) return new AuthenticationError(msg, requestId);
+  if (status === 429) {
+    const ra = headers?.get('retry-after');
+    const retryAfter = ra ? parseFloat(ra) : undefined;
+    return new RateLimitError(msg, retryAfter, requestId);
+  }
+  if (status === 402) return new InsufficientCreditsError(msg, requestId);
+  return new APIError(msg, status, requestId);
+}
@@ -0,0 +1,163 @@
+import type { RouteInfo } from './types';
+import { CircuitOpenError, WaterlightError } from './errors';
+
+export interface FailoverOptions {
+  /** Models to fall back to, in order, once the request's own model has failed on every endpoint. */
+  models?: string[];
+  /** Endpoints to try, in order, after the client's `baseUrl`. They are sent the same API key. */
+  baseUrls?: string[];
+  /**
+   * Whether an error moves the request on to the next target. Default:
+   * 5xx, timeouts (408), network errors (status 0) and RateLimitError.
+   * Errors that don't fail over are thrown as-is and don't count against
+   * the target's health.
+   */
+  shouldFailover?: (error: WaterlightError) => boolean;
+  /** Consecutive failures after which a target is skipped (default 3). */
+  failureThreshold?: number;
+  /** How long (ms) a failing target is skipped before one trial request may use it (default 30,000). */
+  cooldown?: number;
+}
+
+/** A model on an endpoint: the unit failover routes between and tracks health for. */
+export interface FailoverTarget {
+  model: string;
+  baseUrl: string;
+}
+
+/** Circuit-breaker state of a target: `open` targets are skipped until `retryAt`, then `half_open` until a trial settles. */
+export interface TargetHealth extends FailoverTarget {
+  state: 'closed' | 'open' | 'half_open';
+  consecutiveFailures: number;
+  /** When (epoch ms) an open target next admits a trial request. */
+  retryAt?: number;
+}
+
+interface Circuit {
+  target: FailoverTarget;
+  failures: number;
+  openedAt?: number;
+  /** A trial request is in flight on a target whose cooldown has passed. */
+  probing: boolean;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN = 30_000;
+
+/** Errors a different model or endpoint might not hit: server faults, timeouts, network failures and rate limits. */
+function isTransient(error: WaterlightError): boolean {
+  const { status } = error;
+  return status !== undefined && (status === 0 || status === 408 || status === 429 || status >= 500);
+}
+
+/**
+ * Routes a chat request across fallback models and endpoints. Targets are
+ * tried in order — the request's model on each endpoint, then each
+ * fallback model on each endpoint — moving on when a target fails with a
+ * failover error after the client's own retries. A target that fails
+ * `failureThreshold` times in a row is skipped for `cooldown` ms, after
+ * which a single trial request decides whether it is healthy again.
+ */
+export class FailoverRouter {
+  private readonly models: string[];
+  private readonly baseUrls: string[];
+  private readonly shouldFailover: (error: WaterlightError) => boolean;
+  private readonly failureThreshold: number;
+  private readonly cooldown: number;
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(
+    options: FailoverOptions,
+    baseUrl: string,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.models = options.models ?? [];
+    this.baseUrls = [...new Set([baseUrl, ...(options.baseUrls ?? [])])];
+    this.shouldFailover = options.shouldFailover ?? isTransient;
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldown = options.cooldown ?? DEFAULT_COOLDOWN;
+  }
+
+  /** Every target with a failure on record, and its circuit state. Targets not listed are healthy. */
+  health(): TargetHealth[] {
+    return [...this.circuits.values()].map(({ target, failures, openedAt }) => {
+      const retryAt = openedAt === undefined ? undefined : openedAt + this.cooldown;
+      const state = retryAt === undefined ? 'closed' : this.now() < retryAt ? 'open' : 'half_open';
+      return { ...target, state, consecutiveFailures: failures, ...(retryAt !== undefined ? { retryAt } : {}) };
+    });
+  }
+
+  /** Forget all failures, closing every circuit. */
+  reset(): void {
+    this.circuits.clear();
+  }
+
+  /** Targets for a request to `model`, in the order they are tried. */
+  targets(model: string, fallbackModels: string[] = this.models): FailoverTarget[] {
+    return [...new Set([model, ...fallbackModels])].flatMap(m => this.baseUrls.map(baseUrl => ({ model: m, baseUrl })));
+  }
+
+  /**
+   * Call `send` with each target in turn until one succeeds, skipping
+   * targets whose circuit is open. Resolves with the result and its route.
+   *
+   * @param onFailover - Called for each target that fails over, before the next is tried
+   * @throws the last failover error if every admitted target failed, the
+   *   first other error as-is, or CircuitOpenError if no target was admitted
+   */
+  async run<T>(
+    model: string,
+    fallbackModels: string[] | undefined,
+    send: (target: FailoverTarget) => Promise<T>,
+    onFailover?: (target: FailoverTarget, error: WaterlightError) => void,
+  ): Promise<{ value: T; route: RouteInfo }> {
+    const targets = this.targets(model, fallbackModels);
+    const failed: RouteInfo['failed'] = [];
+    for (const target of targets) {
+      if (!this.admit(target)) continue;
+      try {
+        const value = await send(target);
+        this.circuits.delete(keyOf(target));
+        return { value, route: { ...target, failed } };
+      } catch (e) {
+        if (!(e instanceof WaterlightError) || !this.shouldFailover(e)) {
+          const circuit = this.circuits.get(keyOf(target));
+          if (circuit) circuit.probing = false;
+          throw e;
+        }
+        this.recordFailure(target);
+        failed.push({ ...target, error: e });
+        onFailover?.(target, e);
+      }
+    }
+    if (failed.length) throw failed[failed.length - 1].error;
+    const retryAt = Math.min(...targets.map(t => (this.circuits.get(keyOf(t))?.openedAt ?? 0) + this.cooldown));
+    throw new CircuitOpenError(
+      `Every failover target for ${model} is cooling down after repeated failures`,
+      Math.max(0, Math.ceil((retryAt - this.now()) / 1000)),
+    );
+  }
+
+  /** Whether a request may use `target` now: not while its circuit is open or a trial is already in flight. */
+  private admit(target: FailoverTarget): boolean {
+    const circuit = this.circuits.get(keyOf(target));
+    if (circuit?.openedAt === undefined) return true;
+    if (circuit.probing || this.now() - circuit.openedAt < this.cooldown) return false;
+    circuit.probing = true;
+    return true;
+  }
+
+  private recordFailure(target: FailoverTarget): void {
+    const key = keyOf(target);
+    const circuit = this.circuits.get(key) ?? { target, failures: 0, probing: false };
+    circuit.probing = false;
+    circuit.failures++;
+    // Also re-opens a circuit whose trial request failed.
+    if (circuit.failures >= this.failureThreshold) circuit.openedAt = this.now();
+    this.circuits.set(key, circuit);
+  }
+}
+
+function keyOf({ model, baseUrl }: FailoverTarget): string {
+  return `${baseUrl} ${model}`;
+}
@@ -1,5 +1,67 @@
 export { Waterlight } from './client';
-export type { BillingInfo } from './client';
+export type { BillingInfo, ChatCompletionParseParams, ClientOptions } from './client';
 export * from './types';
 export * from './errors';
 export { Stream } from './streaming';
+export type { StreamOptions } from './streaming';
+export { SSEDecoder } from './sse';
+export type { ServerSentEvent } from './sse';
+export { ToolRunner } from './tools';
+export type { RunnableTool, RunToolsParams, ToolResult, ToolRunResult, ToolRunnerEvents } from './tools';
+export { validateSchema } from './schema';
+export type { FromSchema, JSONSchema } from './schema';
+export type { Middleware, MiddlewareNext, MiddlewareRequest } from './middleware';
+export type { ClientEvent, ClientEventHandler, LogLevel, Logger } from './logging';
+export { RateLimiter, estimateRequestTokens } from './ratelimit';
+export type { RateLimitOptions, RateLimitReservation } from './ratelimit';
+export { SpendGuard } from './spend';
+export type { SpendGuardOptions, SpendReservation } from './spend';
+export { UsageTracker } from './usage';
+export type { UsageFilter, UsageRecord, UsageSnapshot, UsageTotals, UsageTrackerOptions } from './usage';
+export { ModelRegistry } from './models';
+export type { ModelRegistryOptions } from './models';
+export { parseBatchOutput, toBatchJSONL } from './batches';
+export type { BatchChatRequest, BatchPollOptions, BatchResult, BatchRunOptions, BatchRunResult } from './batches';
+export { FailoverRouter } from './failover';
+export type { FailoverOptions, FailoverTarget, TargetHealth } from './failover';
+export { decodeEmbedding } from './embeddings';
+export type { EmbeddingBatchParams } from './embeddings';
+export { VectorIndex, cosineSimilarity, dotProduct, normalize } from './vectors';
+export type {
+  SimilarityMetric,
+  Vector,
+  VectorDocument,
+  VectorEntry,
+  VectorIndexData,
+  VectorIndexOptions,
+  VectorSearchOptions,
+  VectorSearchResult,
+} from './vectors';
+export { MemoryCacheStore, FileCacheStore } from './cache';
+export type { CacheEntry, CacheOptions, CacheStore, CacheableRequest } from './cache';
+export { MockServer } from './mock-server';
+export type { MockHandler, MockReply, MockRequest, MockServerOptions } from './mock-server';
+export { Cassette } from './cassette';
+export type {
+  CassetteData,
+  CassetteInteraction,
+  CassetteMatch,
+  CassetteMode,
+  CassetteOptions,
+  RecordedRequest,
+  RecordedResponse,
+} from './cassette';
+export { audioPart, contentText, detectMimeType, imagePart, textPart, toDataURL } from './content';
+export type { MediaOptions, MediaSource } from './content';
+export { countTokens, countMessageTokens, fitMessages } from './tokens';
+export type { FitOptions, FitResult } from './tokens';
+export { Conversation, fitToContext, keepLastMessages, summarizeHistory } from './conversation';
+export type {
+  ConversationInput,
+  ConversationOptions,
+  ConversationParams,
+  ConversationState,
+  SummarizeOptions,
+  TruncationContext,
+  TruncationStrategy,
+} from './conversation';
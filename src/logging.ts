@@ -0,0 +1,162 @@
+import type { Usage } from './types';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'off';
+
+/** Anything with console-style level methods, e.g. `console`, pino or winston. */
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+}
+
+interface EventBase {
+  method: string;
+  path: string;
+  /** 0 for the first attempt. */
+  attempt: number;
+}
+
+/**
+ * Request lifecycle events. `latencyMs` is measured from the start of the
+ * call (including retries), except on `request`/`retry`, which carry none.
+ * Headers and bodies are already redacted.
+ */
+export type ClientEvent =
+  | (EventBase & { type: 'request'; url: string; headers: Record<string, string>; body?: unknown })
+  | (EventBase & { type: 'retry'; status?: number; delayMs: number; requestId?: string })
+  | (EventBase & { type: 'response'; status: number; latencyMs: number; requestId?: string; usage?: Usage })
+  | (EventBase & { type: 'error'; error: unknown; status?: number; latencyMs: number; requestId?: string })
+  | (EventBase & { type: 'stream.first_chunk'; latencyMs: number; requestId?: string })
+  | (EventBase & { type: 'stream.end'; latencyMs: number; chunks: number; requestId?: string; usage?: Usage })
+  /** Failover routing is moving on from a target; `attempt` counts the targets that failed before it. */
+  | (EventBase & { type: 'failover'; model: string; baseUrl: string; error: unknown; status?: number });
+
+export type ClientEventHandler = (event: ClientEvent) => void;
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, off: 100 };
+
+const EVENT_LEVEL: Record<ClientEvent['type'], Exclude<LogLevel, 'off'>> = {
+  'request': 'debug',
+  'stream.first_chunk': 'debug',
+  'response': 'info',
+  'stream.end': 'info',
+  'retry': 'warn',
+  'failover': 'warn',
+  'error': 'error',
+};
+
+const REDACTED = '[REDACTED]';
+
+/** Level from the explicit option, else WATERLIGHT_LOG, else 'off'. Unknown values are ignored. */
+export function resolveLogLevel(level?: LogLevel): LogLevel {
+  if (level) return level;
+  const env = process.env.WATERLIGHT_LOG?.toLowerCase();
+  return env && env in LEVEL_RANK ? env as LogLevel : 'off';
+}
+
+/**
+ * Routes client events to a Logger at their level and to an optional
+ * handler (for tracing spans), scrubbing the API key from everything
+ * emitted. Handler exceptions are swallowed so tracing can't break requests.
+ */
+export class EventSink {
+  constructor(
+    private readonly apiKey: string,
+    private readonly logger: Logger,
+    private readonly level: LogLevel,
+    private readonly handler?: ClientEventHandler,
+    private readonly redactContent: boolean = false,
+  ) {}
+
+  /** True if `request` events would be used, so callers can skip building them. */
+  get verbose(): boolean {
+    return this.handler !== undefined || LEVEL_RANK[this.level] <= LEVEL_RANK.debug;
+  }
+
+  emit(event: ClientEvent): void {
+    const level = EVENT_LEVEL[event.type];
+    if (!this.handler && LEVEL_RANK[level] < LEVEL_RANK[this.level]) return;
+    const safe = this.scrub(event) as ClientEvent;
+    if (this.handler) {
+      try { this.handler(safe); } catch { /* never let tracing break a request */ }
+    }
+    if (LEVEL_RANK[level] >= LEVEL_RANK[this.level]) {
+      this.logger[level](`waterlight ${describe(safe)}`, safe);
+    }
+  }
+
+  /** Redact Authorization and message content in a header map / request body, and shorten inline media. */
+  redactRequest(headers: Record<string, string>, body?: object): { headers: Record<string, string>; body?: unknown } {
+    const safeHeaders: Record<string, string> = {};
+    for (const [k, v] of Object.entries(headers)) {
+      safeHeaders[k] = /^(authorization|api-key|x-api-key)$/i.test(k) ? REDACTED : v;
+    }
+    if (body instanceof FormData) return { headers: safeHeaders, body: describeForm(body) };
+    return { headers: safeHeaders, body: this.redactContent ? redactMessages(body) : elideMedia(body) };
+  }
+
+  private scrub(value: unknown): unknown {
+    // Keys too short to be real would match ordinary text; Authorization is redacted regardless.
+    if (this.apiKey.length < 8) return value;
+    if (typeof value === 'string') return value.split(this.apiKey).join(REDACTED);
+    if (value instanceof Error) return value;
+    if (Array.isArray(value)) return value.map(v => this.scrub(v));
+    if (value && typeof value === 'object') {
+      const out: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(value)) out[k] = this.scrub(v);
+      return out;
+    }
+    return value;
+  }
+}
+
+function redactMessages(body: unknown): unknown {
+  if (!body || typeof body !== 'object') return body;
+  const copy: Record<string, unknown> = { ...body as Record<string, unknown> };
+  if (Array.isArray(copy.messages)) {
+    copy.messages = copy.messages.map((m: any) => ({ ...m, content: m?.content == null ? m?.content : REDACTED }));
+  }
+  if ('input' in copy) copy.input = REDACTED;
+  return copy;
+}
+
+/** Replace base64 image and audio data with its length; megabytes of it in a log line help no one. */
+function elideMedia(body: unknown): unknown {
+  const b = body as Record<string, unknown> | undefined;
+  if (!b || !Array.isArray(b.messages) || !b.messages.some((m: any) => Array.isArray(m?.content))) return body;
+  const elide = (part: any) => {
+    if (part?.type === 'image_url' && part.image_url?.url?.startsWith('data:')) {
+      const url: string = part.image_url.url;
+      const comma = url.indexOf(',');
+      return { ...part, image_url: { ...part.image_url, url: `${url.slice(0, comma + 1)}[${url.length - comma - 1} chars]` } };
+    }
+    if (part?.type === 'input_audio' && typeof part.input_audio?.data === 'string') {
+      return { ...part, input_audio: { ...part.input_audio, data: `[${part.input_audio.data.length} chars]` } };
+    }
+    return part;
+  };
+  return { ...b, messages: b.messages.map((m: any) => (Array.isArray(m?.content) ? { ...m, content: m.content.map(elide) } : m)) };
+}
+
+/** A multipart upload as its text fields, with files reduced to their name and size. */
+function describeForm(form: FormData): Record<string, string> {
+  const out: Record<string, string> = {};
+  form.forEach((value, key) => {
+    out[key] = typeof value === 'string' ? value : `[file ${value.name}, ${value.size} bytes]`;
+  });
+  return out;
+}
+
+function describe(event: ClientEvent): string {
+  const target = `${event.method} ${event.path}`;
+  switch (event.type) {
+    case 'request': return `request ${target} (attempt ${event.attempt})`;
+    case 'retry': return `retry ${target} after ${event.status ?? 'error'} in ${Math.round(event.delayMs)}ms (attempt ${event.attempt})`;
+    case 'response': return `response ${target} ${event.status} in ${event.latencyMs}ms`;
+    case 'error': return `error ${target}${event.status !== undefined ? ` ${event.status}` : ''} after ${event.latencyMs}ms: ${event.error instanceof Error ? event.error.message : String(event.error)}`;
+    case 'stream.first_chunk': return `first chunk ${target} after ${event.latencyMs}ms`;
+    case 'stream.end': return `stream end ${target} ${event.chunks} chunks in ${event.latencyMs}ms`;
+    case 'failover': return `failover ${target} from ${event.model} at ${event.baseUrl} after ${event.status ?? 'error'}`;
+  }
+}
@@ -0,0 +1,45 @@
+/** An outgoing request as seen by middleware. Fields may be modified before calling `next`. */
+export interface MiddlewareRequest {
+  method: string;
+  /** API path, e.g. `/v1/chat/completions` (informational; `url` is what is fetched). */
+  readonly path: string;
+  /** Absolute URL including query string. */
+  url: string;
+  headers: Record<string, string>;
+  /** JSON body, serialised after the whole chain has run; FormData for file uploads. */
+  body?: object;
+  /** 0 for the first attempt, incremented by the client's retry loop. */
+  readonly attempt: number;
+  /** Aborts on timeout or caller cancellation; pass it to any fetch you make yourself. */
+  readonly signal: AbortSignal;
+}
+
+/** Sends the request to the rest of the chain and, finally, the network. */
+export type MiddlewareNext = (req: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Wraps every HTTP attempt, plain and streaming alike. A middleware may
+ * change the request, return its own Response without calling `next`
+ * (short-circuit), inspect or replace the Response, call `next` again to
+ * retry, or catch errors from the rest of the chain.
+ *
+ * Non-OK responses are still mapped to typed errors and retried by the
+ * client after the chain returns. Throw a WaterlightError to fail the call
+ * with that error as-is; other exceptions are reported as network errors.
+ *
+ * @example
+ * ```ts
+ * client.use(async (req, next) => {
+ *   req.headers['X-Signature'] = sign(req.body);
+ *   const res = await next(req);
+ *   console.log(req.method, req.path, res.status);
+ *   return res;
+ * });
+ * ```
+ */
+export type Middleware = (req: MiddlewareRequest, next: MiddlewareNext) => Promise<Response>;
+
+/** Compose middleware (outermost first) around a terminal handler. */
+export function composeMiddleware(middleware: readonly Middleware[], terminal: MiddlewareNext): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>((next, mw) => req => mw(req, next), terminal);
+}
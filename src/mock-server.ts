@@ -0,0 +1,381 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { BillingInfo } from './client';
+import type { ChatCompletion, ChatCompletionChunk, FinishReason, Message, Model, ToolCall, Usage } from './types';
+import { WaterlightError } from './errors';
+import { contentText } from './content';
+
+/** A request received by the mock server. */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  /** Lower-cased header names. */
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw text if it is not JSON. */
+  body?: any;
+}
+
+/**
+ * How to answer one request. Every field is optional: an empty reply gets
+ * the endpoint's default response. For chat completions `content`,
+ * `toolCalls`, `finishReason` and `usage` shape the completion, which is
+ * streamed as SSE when the request has `stream: true`.
+ */
+export interface MockReply {
+  /** HTTP status (default 200). Errors get an OpenAI-style error body unless `body` is given. */
+  status?: number;
+  headers?: Record<string, string>;
+  /** Send this JSON body as-is instead of the generated one (not streamed). */
+  body?: unknown;
+  /** Sets `Retry-After` (seconds). */
+  retryAfter?: number;
+  /** Error message for status >= 400. */
+  message?: string;
+  /** Wait this long (ms) before sending headers. */
+  delayMs?: number;
+
+  content?: string | null;
+  toolCalls?: ToolCall[];
+  finishReason?: FinishReason;
+  usage?: Partial<Usage>;
+  model?: string;
+
+  /** Streams only: wait this long (ms) between chunks. */
+  chunkDelayMs?: number;
+  /** Streams only: stop after this many chunks and keep the connection open. */
+  stallAfter?: number;
+  /** Streams only: send an unparseable chunk after this many chunks. */
+  malformedAfter?: number;
+  /** Streams only: send an `event: error` frame with this status after the content chunks. */
+  streamError?: number;
+}
+
+export type MockHandler = (request: MockRequest) => MockReply | Promise<MockReply>;
+
+export interface MockServerOptions {
+  /** Default 0 (any free port). */
+  port?: number;
+  /** When set, requests without `Authorization: Bearer <apiKey>` get a 401. */
+  apiKey?: string;
+  /** Returned by GET /v1/models: ids, or models with capability metadata. */
+  models?: (string | (Partial<Model> & { id: string }))[];
+  /** Merged into the default GET /v1/billing response. */
+  billing?: Partial<BillingInfo>;
+  /** Length of generated embedding vectors (default 8). */
+  embeddingDimensions?: number;
+}
+
+const DEFAULT_MODELS = ['mist-1-turbo', 'mist-embed'];
+
+const ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  429: 'rate_limit_error',
+};
+
+/**
+ * A local stand-in for the Waterlight API over real HTTP, for tests of
+ * code built on the SDK: point `baseUrl` at `server.url`. Implements
+ * chat completions (JSON and SSE), embeddings, models and billing with
+ * deterministic defaults, and answers from scripted replies first.
+ *
+ * @example
+ * ```ts
+ * const server = await new MockServer().start();
+ * const client = new Waterlight({ apiKey: 'test', baseUrl: server.url });
+ *
+ * server.enqueue('/v1/chat/completions', { status: 429, retryAfter: 0 }, { content: 'Hi!' });
+ * await client.chat.completions.create({ model: 'mist-1-turbo', messages });
+ * expect(server.requestsTo('/v1/chat/completions')).toHaveLength(2);
+ *
+ * await server.close();
+ * ```
+ */
+export class MockServer {
+  /** Every request received, in order. */
+  readonly requests: MockRequest[] = [];
+  private readonly options: MockServerOptions;
+  private readonly queues = new Map<string, MockReply[]>();
+  private readonly handlers = new Map<string, MockHandler>();
+  private readonly server: Server;
+  private address?: AddressInfo;
+  private counter = 0;
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(err => {
+        if (!res.headersSent) this.sendJSON(res, 500, { error: { message: String(err?.message ?? err), type: 'server_error' } });
+        else res.destroy();
+      });
+    });
+  }
+
+  /** Base URL to pass as `baseUrl`, e.g. `http://127.0.0.1:53211`. */
+  get url(): string {
+    if (!this.address) throw new WaterlightError('MockServer has not been started');
+    return `http://127.0.0.1:${this.address.port}`;
+  }
+
+  async start(): Promise<this> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 0, '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    this.address = this.server.address() as AddressInfo;
+    return this;
+  }
+
+  /** Stop listening and drop open connections, including stalled streams. */
+  async close(): Promise<void> {
+    if (!this.server.listening) return;
+    const closed = new Promise<void>(resolve => this.server.close(() => resolve()));
+    this.server.closeAllConnections();
+    await closed;
+  }
+
+  /** Queue replies for `path`; each is used once, before any handler or default. */
+  enqueue(path: string, ...replies: MockReply[]): this {
+    const queue = this.queues.get(path) ?? [];
+    queue.push(...replies);
+    this.queues.set(path, queue);
+    return this;
+  }
+
+  /** Answer every request to `path` that has no queued reply with `handler`. */
+  route(path: string, handler: MockHandler): this {
+    this.handlers.set(path, handler);
+    return this;
+  }
+
+  /** Requests received for `path`. */
+  requestsTo(path: string): MockRequest[] {
+    return this.requests.filter(r => r.path === path);
+  }
+
+  /** The most recent request, optionally for one path. */
+  lastRequest(path?: string): MockRequest | undefined {
+    const matching = path ? this.requestsTo(path) : this.requests;
+    return matching[matching.length - 1];
+  }
+
+  /** Clear recorded requests, queued replies and routes. */
+  reset(): this {
+    this.requests.length = 0;
+    this.queues.clear();
+    this.handlers.clear();
+    return this;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    const text = await readBody(req);
+    let body: any;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = text;
+    }
+    const request: MockRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(Object.entries(req.headers).map(([k, v]) => [k, Array.isArray(v) ? v.join(', ') : v ?? ''])),
+      body,
+    };
+    this.requests.push(request);
+
+    if (this.options.apiKey !== undefined && request.headers.authorization !== `Bearer ${this.options.apiKey}`) {
+      return this.sendJSON(res, 401, { error: { message: 'Invalid API key', type: ERROR_TYPES[401] } });
+    }
+
+    const queued = this.queues.get(request.path)?.shift();
+    const handler = this.handlers.get(request.path);
+    const reply: MockReply = queued ?? (handler ? await handler(request) : {});
+
+    if (reply.delayMs) await new Promise(r => setTimeout(r, reply.delayMs));
+    if (res.destroyed) return;
+
+    const status = reply.status ?? 200;
+    const headers: Record<string, string> = {
+      'x-request-id': `req_mock_${++this.counter}`,
+      ...(reply.retryAfter !== undefined ? { 'retry-after': String(reply.retryAfter) } : {}),
+      ...reply.headers,
+    };
+
+    if (reply.body !== undefined) return this.sendJSON(res, status, reply.body, headers);
+    if (status >= 400) {
+      const message = reply.message ?? `Mock error ${status}`;
+      return this.sendJSON(res, status, { error: { message, type: ERROR_TYPES[status] ?? 'server_error' } }, headers);
+    }
+
+    switch (`${request.method} ${request.path}`) {
+      case 'POST /v1/chat/completions':
+        if (request.body?.stream) return this.sendStream(res, request, this.completion(request, reply), reply, headers);
+        return this.sendJSON(res, status, this.completion(request, reply), headers);
+      case 'POST /v1/embeddings':
+        return this.sendJSON(res, status, this.embeddings(request), headers);
+      case 'GET /v1/models':
+        return this.sendJSON(res, status, this.modelList(), headers);
+      case 'GET /v1/billing':
+        return this.sendJSON(res, status, this.billing(), headers);
+      default: {
+        const model = request.method === 'GET' && request.path.startsWith('/v1/models/')
+          ? this.models().find(m => m.id === decodeURIComponent(request.path.slice('/v1/models/'.length)))
+          : undefined;
+        if (model) return this.sendJSON(res, status, model, headers);
+        return this.sendJSON(res, 404, { error: { message: `No mock for ${request.method} ${request.path}`, type: ERROR_TYPES[404] } }, headers);
+      }
+    }
+  }
+
+  private completion(request: MockRequest, reply: MockReply): ChatCompletion {
+    const messages: Message[] = request.body?.messages ?? [];
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    const content = reply.content !== undefined ? reply.content
+      : reply.toolCalls ? null
+      : `Mock reply to: ${contentText(lastUser?.content ?? null)}`;
+    const prompt = Math.ceil(JSON.stringify(messages).length / 4);
+    const completionTokens = Math.ceil((content ?? JSON.stringify(reply.toolCalls ?? '')).length / 4);
+    const usage = { prompt_tokens: prompt, completion_tokens: completionTokens, ...reply.usage } as Usage;
+    usage.total_tokens ??= usage.prompt_tokens + usage.completion_tokens;
+    return {
+      id: `chatcmpl-mock-${++this.counter}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: reply.model ?? request.body?.model ?? DEFAULT_MODELS[0],
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content, ...(reply.toolCalls ? { tool_calls: reply.toolCalls } : {}) },
+        finish_reason: reply.finishReason ?? (reply.toolCalls ? 'tool_calls' : 'stop'),
+      }],
+      usage,
+    };
+  }
+
+  private embeddings(request: MockRequest): object {
+    const input: string[] = [].concat(request.body?.input ?? []);
+    const dimensions = this.options.embeddingDimensions ?? 8;
+    const data = input.map((text, index) => {
+      const vector = pseudoEmbedding(String(text), dimensions);
+      return {
+        object: 'embedding',
+        index,
+        embedding: request.body?.encoding_format === 'base64'
+          ? Buffer.from(new Float32Array(vector).buffer).toString('base64')
+          : vector,
+      };
+    });
+    const tokens = input.reduce((sum, t) => sum + Math.ceil(String(t).length / 4), 0);
+    return {
+      object: 'list',
+      data,
+      model: request.body?.model ?? 'mist-embed',
+      usage: { prompt_tokens: tokens, completion_tokens: 0, total_tokens: tokens },
+    };
+  }
+
+  private modelList(): object {
+    return { object: 'list', data: this.models() };
+  }
+
+  private models(): Model[] {
+    return (this.options.models ?? DEFAULT_MODELS).map(m => ({
+      object: 'model' as const,
+      created: 1700000000,
+      owned_by: 'waterlight',
+      ...(typeof m === 'string' ? { id: m } : m),
+    }));
+  }
+
+  private billing(): BillingInfo {
+    const total_requests = this.requests.length;
+    return {
+      plan: 'mock',
+      billing_mode: 'prepaid',
+      spent_usd: 0,
+      total_requests,
+      total_tokens: 0,
+      rpm_limit: 600,
+      tpm_limit: 1_000_000,
+      ...this.options.billing,
+    };
+  }
+
+  private sendJSON(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  private async sendStream(
+    res: ServerResponse,
+    request: MockRequest,
+    completion: ChatCompletion,
+    reply: MockReply,
+    headers: Record<string, string>,
+  ): Promise<void> {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', ...headers });
+    res.flushHeaders();
+    const includeUsage = request.body?.stream_options?.include_usage === true;
+    const frames = streamChunks(completion, includeUsage).map(c => `data: ${JSON.stringify(c)}\n\n`);
+    if (reply.malformedAfter !== undefined) frames.splice(reply.malformedAfter, 0, 'data: {"id": "broken\n\n');
+    if (reply.streamError !== undefined) {
+      const error = { error: { message: reply.message ?? `Mock stream error ${reply.streamError}`, status: reply.streamError } };
+      frames.splice(frames.length - (includeUsage ? 2 : 1), 0, `event: error\ndata: ${JSON.stringify(error)}\n\n`);
+    }
+    frames.push('data: [DONE]\n\n');
+
+    for (let i = 0; i < frames.length; i++) {
+      if (reply.stallAfter !== undefined && i >= reply.stallAfter) return; // left open until the client or close() ends it
+      if (i > 0 && reply.chunkDelayMs) await new Promise(r => setTimeout(r, reply.chunkDelayMs));
+      if (res.destroyed) return;
+      res.write(frames[i]);
+    }
+    res.end();
+  }
+}
+
+/** Content streamed a word at a time, then tool calls, then the finish reason (and usage if requested). */
+function streamChunks(completion: ChatCompletion, includeUsage: boolean): ChatCompletionChunk[] {
+  const base = { id: completion.id, object: 'chat.completion.chunk' as const, created: completion.created, model: completion.model };
+  const { message, finish_reason } = completion.choices[0];
+  const chunks: ChatCompletionChunk[] = [{ ...base, choices: [{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }] }];
+  for (const piece of message.content?.match(/\s*\S+\s*/g) ?? []) {
+    chunks.push({ ...base, choices: [{ index: 0, delta: { content: piece }, finish_reason: null }] });
+  }
+  (message.tool_calls ?? []).forEach((call, index) => {
+    chunks.push({ ...base, choices: [{ index: 0, delta: { tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.function.name, arguments: '' } }] }, finish_reason: null }] });
+    chunks.push({ ...base, choices: [{ index: 0, delta: { tool_calls: [{ index, function: { arguments: call.function.arguments } }] }, finish_reason: null }] });
+  });
+  chunks.push({ ...base, choices: [{ index: 0, delta: {}, finish_reason }] });
+  if (includeUsage) chunks.push({ ...base, choices: [], usage: completion.usage });
+  return chunks;
+}
+
+/** Deterministic unit vector derived from the text, so equal inputs embed equally. */
+function pseudoEmbedding(text: string, dimensions: number): number[] {
+  let seed = 2166136261;
+  for (let i = 0; i < text.length; i++) seed = Math.imul(seed ^ text.charCodeAt(i), 16777619);
+  const vector: number[] = [];
+  for (let i = 0; i < dimensions; i++) {
+    seed = Math.imul(seed ^ (seed >>> 15), 2246822507) >>> 0;
+    vector.push((seed / 0xffffffff) * 2 - 1);
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => Math.fround(v / norm));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const parts: Buffer[] = [];
+    req.on('data', (part: Buffer) => parts.push(part));
+    req.on('end', () => resolve(Buffer.concat(parts).toString('utf8')));
+    req.on('error', reject);
+  });
+}
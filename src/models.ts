@@ -0,0 +1,140 @@
+import type { BillingInfo } from './client';
+import type { ChatCompletionCreateParams, Model, ModelCapabilities, ModelList, RequestOptions } from './types';
+import { ModelValidationError } from './errors';
+import { BILLABLE_PATHS } from './spend';
+
+export interface ModelRegistryOptions {
+  /** How long (ms) a fetched model list is reused by models.list() and validation (default 300,000). */
+  ttl?: number;
+  /**
+   * Check chat and embeddings requests against the model list and the
+   * account's `allowed_models` before sending them (default false).
+   */
+  validate?: boolean;
+}
+
+const DEFAULT_TTL = 5 * 60_000;
+
+const FEATURE_NAMES: Record<keyof ModelCapabilities, string> = {
+  tools: 'tools',
+  vision: 'image input',
+  audio: 'audio input',
+  json_mode: 'JSON mode',
+  structured_outputs: 'structured outputs',
+  streaming: 'streaming',
+};
+
+/**
+ * The model list, fetched once per `ttl` and shared by models.list() and
+ * request validation, so capabilities, context windows and prices can be
+ * read from the API instead of hard-coded.
+ *
+ * With `validate` on, a request naming a model the account may not use,
+ * a model that isn't listed, or a model that reports lacking a feature
+ * the request relies on (e.g. `tools`) fails with ModelValidationError
+ * without being sent. Capabilities a server doesn't report are assumed
+ * supported, and requests pass unchecked while the model list or billing
+ * can't be fetched.
+ */
+export class ModelRegistry {
+  readonly ttl: number;
+  readonly validates: boolean;
+  private cached?: { list: ModelList; fetchedAt: number };
+  /** When the last fetch for validation failed; validation is skipped until the TTL has passed. */
+  private failedAt?: number;
+  private allowed?: { models: Promise<Set<string> | undefined>; fetchedAt: number };
+
+  constructor(
+    options: ModelRegistryOptions = {},
+    private readonly loadModels: (options?: RequestOptions) => Promise<ModelList>,
+    private readonly loadBilling?: () => Promise<BillingInfo>,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.validates = options.validate ?? false;
+  }
+
+  /** The model list, fetched with `options` unless one younger than the TTL is held. */
+  async list(options?: RequestOptions): Promise<ModelList> {
+    if (this.cached && this.fresh(this.cached.fetchedAt)) return this.cached.list;
+    const list = await this.loadModels(options);
+    this.cached = { list, fetchedAt: this.now() };
+    this.failedAt = undefined;
+    return list;
+  }
+
+  /** The listed model with id `model`, or undefined if there is none. */
+  async get(model: string, options?: RequestOptions): Promise<Model | undefined> {
+    return (await this.list(options)).data.find(m => m.id === model);
+  }
+
+  /** Forget the cached list and allowed models, so the next use fetches them. */
+  clear(): void {
+    this.cached = undefined;
+    this.failedAt = undefined;
+    this.allowed = undefined;
+  }
+
+  /**
+   * Throw ModelValidationError if a request to `path` can't succeed on the
+   * model it names. A no-op unless `validate` is on, and for endpoints
+   * other than chat and embeddings.
+   */
+  async validate(path: string, body?: object): Promise<void> {
+    const model = (body as { model?: string } | undefined)?.model;
+    if (!this.validates || !model || !BILLABLE_PATHS.has(path)) return;
+
+    const allowed = await this.allowedModels();
+    if (allowed && !allowed.has(model)) {
+      throw new ModelValidationError(`Model ${model} is not in this account's allowed models`, model, 'not_allowed');
+    }
+    const models = await this.models();
+    if (!models) return;
+    const info = models.find(m => m.id === model);
+    if (!info) {
+      throw new ModelValidationError(`Unknown model ${model}; see models.list() for the available ones`, model, 'unknown_model');
+    }
+    for (const feature of requiredCapabilities(body!)) {
+      if (info.capabilities?.[feature] === false) {
+        throw new ModelValidationError(`Model ${model} does not support ${FEATURE_NAMES[feature]}`, model, 'unsupported_feature', feature);
+      }
+    }
+  }
+
+  private async models(): Promise<Model[] | undefined> {
+    if (this.failedAt !== undefined && this.fresh(this.failedAt)) return undefined;
+    try {
+      return (await this.list()).data;
+    } catch {
+      this.failedAt = this.now();
+      return undefined;
+    }
+  }
+
+  private allowedModels(): Promise<Set<string> | undefined> {
+    if (!this.loadBilling) return Promise.resolve(undefined);
+    if (!this.allowed || !this.fresh(this.allowed.fetchedAt)) {
+      // An absent or empty list means every model is allowed.
+      const models = this.loadBilling().then(info => info.allowed_models?.length ? new Set(info.allowed_models) : undefined, () => undefined);
+      this.allowed = { models, fetchedAt: this.now() };
+    }
+    return this.allowed.models;
+  }
+
+  private fresh(since: number): boolean {
+    return this.now() - since < this.ttl;
+  }
+}
+
+/** Capabilities a chat request body relies on. */
+function requiredCapabilities(body: Partial<ChatCompletionCreateParams>): (keyof ModelCapabilities)[] {
+  const needed: (keyof ModelCapabilities)[] = [];
+  if (body.tools?.length) needed.push('tools');
+  if (body.response_format?.type === 'json_object') needed.push('json_mode');
+  if (body.response_format?.type === 'json_schema') needed.push('structured_outputs');
+  if (body.stream) needed.push('streaming');
+  const parts = (body.messages ?? []).flatMap(m => (Array.isArray(m.content) ? m.content : []));
+  if (parts.some(p => p.type === 'image_url')) needed.push('vision');
+  if (parts.some(p => p.type === 'input_audio')) needed.push('audio');
+  return needed;
+}
@@ -0,0 +1,202 @@
+import { APIUserAbortError } from './errors';
+import { countMessageTokens, countTokens } from './tokens';
+
+export interface RateLimitOptions {
+  /** Requests per minute. */
+  rpm?: number;
+  /** Estimated tokens per minute. */
+  tpm?: number;
+  /**
+   * Fetch `rpm_limit`/`tpm_limit` from billing.get() before the first
+   * request. Explicit `rpm`/`tpm` take precedence.
+   */
+  auto?: boolean;
+}
+
+/** Tokens taken for one request; settle it once the real usage is known. */
+export interface RateLimitReservation {
+  /**
+   * Replace the estimate with the actual token count (0 for a request that
+   * failed without consuming tokens). Only the first numeric call counts;
+   * `undefined` leaves the estimate in place.
+   */
+  reconcile(actualTokens?: number): void;
+}
+
+const MINUTE = 60_000;
+
+/** Token bucket refilled continuously at `capacity` per minute. */
+class Bucket {
+  level: number;
+  private updated: number;
+
+  constructor(public capacity: number, now: number) {
+    this.level = capacity;
+    this.updated = now;
+  }
+
+  refill(now: number): void {
+    this.level = Math.min(this.capacity, this.level + (now - this.updated) * this.capacity / MINUTE);
+    this.updated = now;
+  }
+
+  /** ms until `amount` is available (0 if it already is). */
+  waitFor(amount: number): number {
+    const needed = Math.min(amount, this.capacity) - this.level;
+    return needed <= 0 ? 0 : Math.ceil(needed * MINUTE / this.capacity);
+  }
+
+  resize(capacity: number): void {
+    this.level = Math.min(this.level, capacity);
+    this.capacity = capacity;
+  }
+}
+
+interface Waiter {
+  tokens: number;
+  resolve: (reservation: RateLimitReservation) => void;
+  reject: (err: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Client-side limiter enforcing requests- and tokens-per-minute before a
+ * request is sent. Requests wait in a FIFO queue, so a large request is not
+ * starved by a stream of small ones. Token counts are estimates, corrected
+ * through each reservation once the response reports its usage.
+ */
+export class RateLimiter {
+  private requests?: Bucket;
+  private tokens?: Bucket;
+  private readonly queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  /** Limits passed to the constructor; configure() never goes above them. */
+  private readonly ceiling: { rpm?: number; tpm?: number };
+
+  constructor(limits: { rpm?: number; tpm?: number } = {}, private readonly now: () => number = Date.now) {
+    this.ceiling = { ...limits };
+    this.configure(limits);
+  }
+
+  get rpm(): number | undefined { return this.requests?.capacity; }
+  get tpm(): number | undefined { return this.tokens?.capacity; }
+  /** Requests currently waiting for capacity. */
+  get pending(): number { return this.queue.length; }
+
+  /**
+   * Set or change limits; a missing limit leaves the current one unchanged.
+   * Limits given to the constructor are ceilings: a higher value is capped.
+   */
+  configure(limits: { rpm?: number; tpm?: number }): void {
+    const rpm = capped(limits.rpm, this.ceiling.rpm);
+    const tpm = capped(limits.tpm, this.ceiling.tpm);
+    const now = this.now();
+    if (rpm && rpm > 0) {
+      if (this.requests) { this.requests.refill(now); this.requests.resize(rpm); } else this.requests = new Bucket(rpm, now);
+    }
+    if (tpm && tpm > 0) {
+      if (this.tokens) { this.tokens.refill(now); this.tokens.resize(tpm); } else this.tokens = new Bucket(tpm, now);
+    }
+    this.pump();
+  }
+
+  /**
+   * Tighten the buckets from `x-ratelimit-*` response headers, so capacity
+   * used by other clients sharing the key is accounted for. Header limits
+   * never raise an explicit `rpm`/`tpm`.
+   */
+  updateFromHeaders(headers: Headers): void {
+    const num = (name: string) => {
+      const v = headers.get(name);
+      const n = v === null ? NaN : parseFloat(v);
+      return Number.isFinite(n) ? n : undefined;
+    };
+    this.configure({ rpm: num('x-ratelimit-limit-requests'), tpm: num('x-ratelimit-limit-tokens') });
+    const now = this.now();
+    const remainingRequests = num('x-ratelimit-remaining-requests');
+    const remainingTokens = num('x-ratelimit-remaining-tokens');
+    if (this.requests && remainingRequests !== undefined) {
+      this.requests.refill(now);
+      this.requests.level = Math.min(this.requests.level, remainingRequests);
+    }
+    if (this.tokens && remainingTokens !== undefined) {
+      this.tokens.refill(now);
+      this.tokens.level = Math.min(this.tokens.level, remainingTokens);
+    }
+  }
+
+  /** Wait for capacity for one request of about `tokens` tokens. */
+  acquire(tokens: number, signal?: AbortSignal): Promise<RateLimitReservation> {
+    if (signal?.aborted) return Promise.reject(new APIUserAbortError());
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { tokens, resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const i = this.queue.indexOf(waiter);
+          if (i !== -1) this.queue.splice(i, 1);
+          reject(new APIUserAbortError());
+          this.pump();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    while (this.queue.length) {
+      const head = this.queue[0];
+      const now = this.now();
+      this.requests?.refill(now);
+      this.tokens?.refill(now);
+      const wait = Math.max(this.requests?.waitFor(1) ?? 0, this.tokens?.waitFor(head.tokens) ?? 0);
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.pump(), wait);
+        return;
+      }
+      this.queue.shift();
+      if (head.onAbort) head.signal?.removeEventListener('abort', head.onAbort);
+      head.resolve(this.take(head.tokens));
+    }
+  }
+
+  private take(estimate: number): RateLimitReservation {
+    const charged = this.tokens ? Math.min(estimate, this.tokens.capacity) : 0;
+    if (this.requests) this.requests.level -= 1;
+    if (this.tokens) this.tokens.level -= charged;
+    let settled = false;
+    return {
+      reconcile: actual => {
+        if (settled || actual === undefined) return;
+        settled = true;
+        if (!this.tokens) return;
+        this.tokens.refill(this.now());
+        // A bucket may go negative after an underestimate; later requests then wait it out.
+        this.tokens.level = Math.min(this.tokens.capacity, this.tokens.level + charged - actual);
+        this.pump();
+      },
+    };
+  }
+}
+
+/** `limit` held to `ceiling`, when both are set. */
+function capped(limit?: number, ceiling?: number): number | undefined {
+  return limit && ceiling && ceiling > 0 ? Math.min(limit, ceiling) : limit;
+}
+
+/**
+ * Token estimate for a request body: the prompt (messages and tools, or
+ * embedding input) counted with countTokens, plus the completion budget.
+ */
+export function estimateRequestTokens(body?: object): number {
+  if (!body) return 0;
+  const b = body as Record<string, any>;
+  const completion = (b.max_completion_tokens ?? b.max_tokens ?? 0) * (b.n ?? 1);
+  if (Array.isArray(b.messages)) return countMessageTokens(b.messages, b.tools) + completion;
+  const inputs: unknown[] = Array.isArray(b.input) ? b.input : [b.input ?? ''];
+  return inputs.reduce<number>((sum, x) => sum + (typeof x === 'string' ? countTokens(x) : 1), 0) + completion;
+}
@@ -0,0 +1,135 @@
+/**
+ * Minimal JSON Schema validator covering the subset models are given for
+ * tool parameters and structured outputs: type (incl. unions and
+ * "integer"), properties/required/additionalProperties, items, enum,
+ * const, anyOf/oneOf/allOf, numeric and length bounds, and pattern.
+ * Unsupported keywords are ignored, so a schema never fails to load.
+ */
+
+export type JSONSchema = Record<string, any>;
+
+type RequiredKeys<S> = S extends { required: readonly (infer R)[] } ? R : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectFromSchema<S> = S extends { properties: infer P }
+  ? Simplify<
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]> } &
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]> }
+    >
+  : Record<string, unknown>;
+
+type FromTypeName<S, T> =
+  T extends 'object' ? ObjectFromSchema<S> :
+  T extends 'array' ? (S extends { items: infer I } ? FromSchema<I>[] : unknown[]) :
+  T extends 'string' ? string :
+  T extends 'number' | 'integer' ? number :
+  T extends 'boolean' ? boolean :
+  T extends 'null' ? null :
+  unknown;
+
+/**
+ * TypeScript type described by a literal JSON Schema, e.g.
+ * `FromSchema<{ type: 'object', properties: { n: { type: 'number' } }, required: ['n'] }>`
+ * is `{ n: number }`. Schemas it cannot follow map to `unknown`.
+ */
+export type FromSchema<S> =
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { const: infer C } ? C :
+  S extends { anyOf: readonly (infer U)[] } ? FromSchema<U> :
+  S extends { oneOf: readonly (infer U)[] } ? FromSchema<U> :
+  S extends { type: readonly (infer T)[] } ? FromTypeName<S, T> :
+  S extends { type: infer T } ? FromTypeName<S, T> :
+  unknown;
+
+/** Validate `value` against `schema`; returns human-readable errors, empty when valid. */
+export function validateSchema(schema: JSONSchema, value: unknown, path: string = '$'): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(t, value))) {
+      return [`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((v: unknown) => deepEqual(v, value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.allOf) {
+    for (const sub of schema.allOf) errors.push(...validateSchema(sub, value, path));
+  }
+  if (schema.anyOf && !schema.anyOf.some((sub: JSONSchema) => validateSchema(sub, value, path).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema`);
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((sub: JSONSchema) => validateSchema(sub, value, path).length === 0).length;
+    if (matches !== 1) errors.push(`${path}: must match exactly one schema (matched ${matches})`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) errors.push(`${path}: must match /${schema.pattern}/`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, i) => errors.push(...validateSchema(schema.items, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>;
+    const props: Record<string, JSONSchema> = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      if (key in props) {
+        errors.push(...validateSchema(props[key], v, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(schema.additionalProperties, v, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
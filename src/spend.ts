@@ -0,0 +1,217 @@
+import type { BillingInfo } from './client';
+import type { ModelPrice, Usage } from './types';
+import { SpendLimitError } from './errors';
+import { countMessageTokens, countTokens } from './tokens';
+
+export interface SpendGuardOptions {
+  /**
+   * Prices by model id. A model without its own entry uses the longest
+   * entry that prefixes its id (`mist-1` covers `mist-1-turbo`), then `'*'`.
+   * Requests for unpriced models are estimated at $0.
+   */
+  prices?: Record<string, ModelPrice>;
+  /** Most this client may spend (USD), counting in-flight estimates. */
+  budget?: number;
+  /**
+   * Also refuse requests beyond the account's remaining balance or daily
+   * request limit, as reported by billing.get() (default true).
+   */
+  checkAccount?: boolean;
+  /** How often (ms) billing is re-fetched in the background (default 60,000). */
+  refreshInterval?: number;
+  /** Completion tokens assumed for chat requests without `max_tokens` (default 4096). */
+  defaultMaxTokens?: number;
+}
+
+/**
+ * Estimated cost charged for one request; settle it once the real usage is
+ * known. Streams that finish without reporting usage keep their estimate.
+ */
+export interface SpendReservation {
+  /** The cost (USD) charged up front. */
+  readonly estimatedCost: number;
+  /**
+   * Replace the estimate with the cost of `usage`, or with nothing (`null`)
+   * for a request that failed. Only the first non-undefined call counts.
+   */
+  reconcile(usage?: Usage | null): void;
+}
+
+/** @internal Endpoints that cost money; requests to other paths are neither checked nor tracked. */
+export const BILLABLE_PATHS = new Set(['/v1/chat/completions', '/v1/embeddings']);
+const DEFAULT_REFRESH_INTERVAL = 60_000;
+const DEFAULT_MAX_TOKENS = 4096;
+
+/** @internal Model price lookup shared by SpendGuard and UsageTracker. */
+export class PriceTable {
+  private readonly entries: [string, ModelPrice][];
+
+  constructor(prices: Record<string, ModelPrice> = {}) {
+    // Longest first, so the first prefix found is the most specific.
+    this.entries = Object.entries(prices).sort(([a], [b]) => b.length - a.length);
+  }
+
+  priceFor(model: string | undefined): ModelPrice | undefined {
+    const id = model ?? '';
+    const match = this.entries.find(([key]) => key !== '*' && id.startsWith(key)) ?? this.entries.find(([key]) => key === '*');
+    return match?.[1];
+  }
+
+  cost(model: string | undefined, usage: Partial<Usage>): number {
+    const price = this.priceFor(model);
+    if (!price) return 0;
+    return ((usage.prompt_tokens ?? 0) * price.input + (usage.completion_tokens ?? 0) * (price.output ?? price.input)) / 1_000_000;
+  }
+}
+
+/**
+ * Client-side spending limits. Each chat or embeddings request is priced
+ * before it is sent, from the prompt's estimated tokens plus `max_tokens`;
+ * requests that would overrun the local budget or what is left on the
+ * account fail with SpendLimitError instead of being sent. Estimates are
+ * replaced by the cost of the returned usage, and billing is re-fetched
+ * periodically so spending by other clients is picked up.
+ */
+export class SpendGuard {
+  private readonly prices: PriceTable;
+  private readonly budget?: number;
+  private readonly refreshInterval: number;
+  private readonly defaultMaxTokens: number;
+  private total = 0;
+  private info?: BillingInfo;
+  private fetchedAt?: number;
+  private refreshing?: Promise<void>;
+  /** Spend and requests since `info` was fetched, which it doesn't reflect yet. */
+  private spentSinceRefresh = 0;
+  private requestsSinceRefresh = 0;
+
+  constructor(
+    options: SpendGuardOptions = {},
+    private readonly loadBilling?: () => Promise<BillingInfo>,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.prices = new PriceTable(options.prices);
+    this.budget = options.budget;
+    this.refreshInterval = options.refreshInterval ?? DEFAULT_REFRESH_INTERVAL;
+    this.defaultMaxTokens = options.defaultMaxTokens ?? DEFAULT_MAX_TOKENS;
+    if (options.checkAccount === false) this.loadBilling = undefined;
+  }
+
+  /** USD charged so far, including estimates for requests still in flight. */
+  get spent(): number { return this.total; }
+
+  /** Billing as last fetched, if account checks are on and a fetch succeeded. */
+  get account(): BillingInfo | undefined { return this.info; }
+
+  /** The tighter of what is left of the budget and of the account balance (USD), if either is known. */
+  get remaining(): number | undefined {
+    const left = [this.budgetLeft(), this.balanceLeft()].filter((n): n is number => n !== undefined);
+    return left.length ? Math.min(...left) : undefined;
+  }
+
+  /** Price for `model`, or undefined if the table has none. */
+  priceFor(model: string | undefined): ModelPrice | undefined {
+    return this.prices.priceFor(model);
+  }
+
+  /** Cost (USD) of `usage` on `model`. */
+  cost(model: string | undefined, usage: Partial<Usage>): number {
+    return this.prices.cost(model, usage);
+  }
+
+  /** Worst-case cost (USD) of a chat or embeddings request body. */
+  estimate(body: object): number {
+    const b = body as Record<string, any>;
+    if (Array.isArray(b.messages)) {
+      return this.cost(b.model, {
+        prompt_tokens: countMessageTokens(b.messages, b.tools),
+        completion_tokens: (b.max_completion_tokens ?? b.max_tokens ?? this.defaultMaxTokens) * (b.n ?? 1),
+      });
+    }
+    const inputs: unknown[] = Array.isArray(b.input) ? b.input : [b.input ?? ''];
+    return this.cost(b.model, { prompt_tokens: inputs.reduce<number>((sum, x) => sum + (typeof x === 'string' ? countTokens(x) : 1), 0) });
+  }
+
+  /** Re-fetch billing now. Failures keep the last known state. */
+  refresh(): Promise<void> {
+    if (!this.loadBilling) return Promise.resolve();
+    return this.refreshing ??= this.loadBilling().then(
+      info => {
+        this.info = info;
+        this.spentSinceRefresh = 0;
+        this.requestsSinceRefresh = 0;
+      },
+      () => {},
+    ).finally(() => {
+      this.fetchedAt = this.now();
+      this.refreshing = undefined;
+    });
+  }
+
+  /**
+   * Charge the estimated cost of a request to `path`, or throw
+   * SpendLimitError if a limit would be exceeded. Resolves to undefined
+   * for endpoints that are not billed.
+   */
+  async reserve(path: string, body?: object): Promise<SpendReservation | undefined> {
+    if (!BILLABLE_PATHS.has(path) || !body) return undefined;
+    if (this.loadBilling) {
+      // Only the first fetch is waited for; later ones update in the background.
+      if (this.fetchedAt === undefined) await this.refresh();
+      else if (this.now() - this.fetchedAt >= this.refreshInterval) this.refresh();
+    }
+    const estimate = this.estimate(body);
+    this.check('budget', estimate, this.budgetLeft());
+    this.check('balance', estimate, this.balanceLeft());
+    const daily = this.dailyLeft();
+    if (daily !== undefined && daily < 1) {
+      throw new SpendLimitError(`Daily request limit of ${this.info!.daily_limit} reached`, 'daily', estimate, daily);
+    }
+    return this.take((body as { model?: string }).model, estimate);
+  }
+
+  private check(limit: 'budget' | 'balance', estimate: number, left: number | undefined): void {
+    if (left === undefined || (estimate <= left && left > 0)) return;
+    const what = limit === 'budget' ? `the spend guard budget of $${this.budget}` : 'the account balance';
+    throw new SpendLimitError(
+      `Request estimated at $${estimate.toFixed(4)} would exceed ${what} ($${Math.max(0, left).toFixed(4)} left)`,
+      limit,
+      estimate,
+      left,
+    );
+  }
+
+  private budgetLeft(): number | undefined {
+    return this.budget === undefined ? undefined : this.budget - this.total;
+  }
+
+  private balanceLeft(): number | undefined {
+    const remaining = this.info?.remaining_usd ?? this.info?.balance_usd;
+    return remaining === undefined ? undefined : remaining - this.spentSinceRefresh;
+  }
+
+  private dailyLeft(): number | undefined {
+    const limit = this.info?.daily_limit;
+    return limit === undefined ? undefined : limit - (this.info!.daily_used ?? 0) - this.requestsSinceRefresh;
+  }
+
+  private take(model: string | undefined, estimate: number): SpendReservation {
+    let settled = false;
+    const adjust = (amount: number) => {
+      this.total += amount;
+      this.spentSinceRefresh += amount;
+    };
+    adjust(estimate);
+    this.requestsSinceRefresh++;
+    return {
+      estimatedCost: estimate,
+      reconcile: usage => {
+        if (settled || usage === undefined) return;
+        settled = true;
+        if (usage === null) this.requestsSinceRefresh--;
+        const actual = usage === null ? 0 : this.cost(model, usage);
+        adjust(actual - estimate);
+      },
+    };
+  }
+}
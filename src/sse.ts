@@ -0,0 +1,106 @@
+/** One event dispatched by an SSE stream. */
+export interface ServerSentEvent {
+  /** Value of the last `event:` field, or null for the default "message" type. */
+  event: string | null;
+  /** All `data:` fields of the event, joined with "\n". */
+  data: string;
+  /** Value of the last `id:` field, or null if none was sent. */
+  id: string | null;
+  /** Reconnection time (ms) from a `retry:` field, if sent. */
+  retry?: number;
+}
+
+/**
+ * Incremental decoder for the text/event-stream format.
+ *
+ * Feed it decoded text as it arrives; it returns the events completed by
+ * that text. Accepts `\n`, `\r\n` and `\r` line endings (including a CRLF
+ * split across chunks), joins multi-line `data:` fields, and ignores
+ * comment lines such as `: heartbeat`.
+ *
+ * @example
+ * ```ts
+ * const decoder = new SSEDecoder();
+ * for (const event of decoder.decode('data: {"a":1}\r\n\r\n')) {
+ *   console.log(event.data); // {"a":1}
+ * }
+ * ```
+ */
+export class SSEDecoder {
+  private buffer = '';
+  private event: string | null = null;
+  private data: string[] = [];
+  private id: string | null = null;
+  private retry?: number;
+
+  /** Characters received but not yet terminated by a line ending. */
+  get pending(): number {
+    return this.buffer.length;
+  }
+
+  decode(text: string): ServerSentEvent[] {
+    this.buffer += text;
+    const events: ServerSentEvent[] = [];
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+      // A trailing \r may be the first half of a CRLF; wait for the next chunk.
+      if (ch === '\r' && i === this.buffer.length - 1) break;
+      const event = this.line(this.buffer.slice(start, i));
+      if (event) events.push(event);
+      if (ch === '\r' && this.buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  /** Dispatch whatever is buffered, as if the stream ended with a blank line. */
+  flush(): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+    if (this.buffer) {
+      const event = this.line(this.buffer.replace(/\r$/, ''));
+      if (event) events.push(event);
+      this.buffer = '';
+    }
+    const last = this.line('');
+    if (last) events.push(last);
+    return events;
+  }
+
+  private line(line: string): ServerSentEvent | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event': this.event = value; break;
+      case 'data': this.data.push(value); break;
+      case 'id': if (!value.includes('\0')) this.id = value; break;
+      case 'retry': if (/^\d+$/.test(value)) this.retry = parseInt(value, 10); break;
+      default: break; // unknown fields are ignored per spec
+    }
+    return null;
+  }
+
+  private dispatch(): ServerSentEvent | null {
+    if (!this.data.length) {
+      this.event = null;
+      return null;
+    }
+    const event: ServerSentEvent = {
+      event: this.event,
+      data: this.data.join('\n'),
+      id: this.id,
+      ...(this.retry !== undefined ? { retry: this.retry } : {}),
+    };
+    this.event = null;
+    this.data = [];
+    return event;
+  }
+}
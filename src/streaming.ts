@@ -1,8 +1,116 @@
-import type { ChatCompletionChunk } from './types';
-import { APIError, WaterlightError } from './errors';
+import type {
+  CacheInfo,
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  ChoiceLogprobs,
+  FinishReason,
+  RouteInfo,
+  StreamedChatCompletion,
+  ToolCall,
+  Usage,
+} from './types';
+import { APIError, APIUserAbortError, WaterlightError, makeStatusError } from './errors';
+import { SSEDecoder, ServerSentEvent } from './sse';
 
 const MAX_SSE_BUFFER = 10 * 1024 * 1024; // 10 MB
 
+interface ChoiceState {
+  index: number;
+  message: ChatCompletionMessage;
+  finish_reason: FinishReason | null;
+  toolCalls: Map<number, ToolCall>;
+  logprobs?: ChoiceLogprobs;
+}
+
+/** Folds ChatCompletionChunks into the equivalent non-streaming ChatCompletion. */
+class ChunkAccumulator {
+  private id = '';
+  private created = 0;
+  private model = '';
+  private fingerprint?: string;
+  private usage?: Usage;
+  private readonly choices = new Map<number, ChoiceState>();
+
+  add(chunk: ChatCompletionChunk): void {
+    this.id ||= chunk.id;
+    this.created ||= chunk.created;
+    this.model ||= chunk.model;
+    this.fingerprint ||= chunk.system_fingerprint ?? undefined;
+    // With `include_usage` every chunk carries `usage: null` until the last,
+    // which has the usage and no choices.
+    if (chunk.usage) this.usage = chunk.usage;
+
+    for (const { index, delta, finish_reason, logprobs } of chunk.choices ?? []) {
+      let state = this.choices.get(index);
+      if (!state) {
+        state = { index, message: { role: 'assistant', content: null }, finish_reason: null, toolCalls: new Map() };
+        this.choices.set(index, state);
+      }
+      if (delta?.role) state.message.role = delta.role;
+      if (delta?.content) state.message.content = (state.message.content ?? '') + delta.content;
+      if (delta?.refusal) state.message.refusal = (state.message.refusal ?? '') + delta.refusal;
+      for (const frag of delta?.tool_calls ?? []) {
+        let call = state.toolCalls.get(frag.index);
+        if (!call) {
+          call = { id: '', type: 'function', function: { name: '', arguments: '' } };
+          state.toolCalls.set(frag.index, call);
+        }
+        if (frag.id) call.id = frag.id;
+        if (frag.function?.name) call.function.name += frag.function.name;
+        if (frag.function?.arguments) call.function.arguments += frag.function.arguments;
+      }
+      if (logprobs) {
+        state.logprobs ??= { content: null, refusal: null };
+        if (logprobs.content) state.logprobs.content = (state.logprobs.content ?? []).concat(logprobs.content);
+        if (logprobs.refusal) state.logprobs.refusal = (state.logprobs.refusal ?? []).concat(logprobs.refusal);
+      }
+      if (finish_reason) state.finish_reason = finish_reason;
+    }
+  }
+
+  snapshot(): StreamedChatCompletion {
+    const choices = [...this.choices.values()]
+      .sort((a, b) => a.index - b.index)
+      .map(({ index, message, finish_reason, toolCalls, logprobs }) => {
+        const calls = [...toolCalls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call);
+        return {
+          index,
+          message: calls.length ? { ...message, tool_calls: calls } : { ...message },
+          finish_reason,
+          ...(logprobs ? { logprobs: { ...logprobs } } : {}),
+        };
+      });
+    return {
+      id: this.id,
+      object: 'chat.completion',
+      created: this.created,
+      model: this.model,
+      ...(this.fingerprint ? { system_fingerprint: this.fingerprint } : {}),
+      choices,
+      ...(this.usage ? { usage: this.usage } : {}),
+    };
+  }
+}
+
+/** Timeouts and cancellation for a {@link Stream}. */
+export interface StreamOptions {
+  /** Longest gap (ms) allowed between bytes once the response has started. */
+  idleTimeout?: number;
+  /** Cap (ms) on the whole stream, connect included; 0 or undefined means no cap. */
+  totalTimeout?: number;
+  /** Caller's AbortSignal; aborting surfaces as APIUserAbortError. */
+  signal?: AbortSignal;
+  /**
+   * Notified when the first chunk arrives and when the stream completes, or
+   * with `error` when reading fails or stops before the end (a `break` or
+   * abort() included), with what had arrived by then.
+   */
+  onEvent?: (event:
+    | { type: 'first_chunk' }
+    | { type: 'end'; chunks: number; completion: StreamedChatCompletion }
+    | { type: 'error'; error: unknown; chunks: number; completion: StreamedChatCompletion }) => void;
+}
+
 /**
  * SSE stream that implements AsyncIterable<ChatCompletionChunk>.
  *
@@ -11,83 +119,203 @@ const MAX_SSE_BUFFER = 10 * 1024 * 1024; // 10 MB
  *   for await (const chunk of stream) {
  *     process.stdout.write(chunk.choices[0]?.delta?.content ?? '');
  *   }
+ *
+ * Or reduce it to a single completion, after or instead of iterating:
+ *   const completion = await stream.finalChatCompletion();
+ *
+ * A Stream issues one request and can only be iterated once. Malformed
+ * chunks and `event: error` frames raise typed errors rather than being skipped.
  */
 export class Stream implements AsyncIterable<ChatCompletionChunk> {
-  private readonly url: string;
-  private readonly apiKey: string;
-  private readonly body: string;
-  private readonly timeout: number;
-
-  constructor(url: string, apiKey: string, params: object, timeout: number = 120_000) {
-    this.url = url;
-    this.apiKey = apiKey;
-    this.body = JSON.stringify({ ...params, stream: true });
-    this.timeout = timeout;
+  private readonly connect: (signal: AbortSignal) => Promise<Response>;
+  private readonly options: StreamOptions;
+  private readonly accumulator = new ChunkAccumulator();
+  /** Set by a client with a response cache: whether this stream is replayed from the cache. */
+  cache?: CacheInfo;
+  /** Set by a client with failover once connected: the model and endpoint serving this stream. */
+  route?: RouteInfo;
+  private started = false;
+  private readonly aborter = new AbortController();
+  private readonly ended: Promise<void>;
+  private settle!: (err?: unknown) => void;
+
+  /**
+   * @param connect - Opens the HTTP response; expected to retry and map
+   *   non-OK statuses to typed errors (see Waterlight._send). Aborting the
+   *   signal it receives must reject with APIUserAbortError.
+   * @param options - Idle/total timeouts and the caller's AbortSignal
+   */
+  constructor(connect: (signal: AbortSignal) => Promise<Response>, options: StreamOptions = {}) {
+    this.connect = connect;
+    this.options = options;
+    this.ended = new Promise<void>((resolve, reject) => {
+      this.settle = err => (err === undefined ? resolve() : reject(err));
+    });
+    // Rejections are surfaced to whoever iterates; only final*() callers await this.
+    this.ended.catch(() => {});
   }
 
-  async *[Symbol.asyncIterator](): AsyncIterator<ChatCompletionChunk> {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), this.timeout);
+  /**
+   * Consume the stream (if it has not been already) and return the
+   * reassembled completion: content, refusals and logprobs concatenated per
+   * choice, tool-call fragments merged by index, and usage if the server
+   * reported it.
+   */
+  async finalChatCompletion(): Promise<StreamedChatCompletion> {
+    if (!this.started) {
+      for await (const _ of this) { /* drain */ }
+    }
+    await this.ended;
+    return this.accumulator.snapshot();
+  }
 
-    let res: Response;
-    try {
-      res = await fetch(this.url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'Accept': 'text/event-stream',
-          'User-Agent': 'waterlight-node/0.2.1',
-        },
-        body: this.body,
-        signal: controller.signal,
-      });
-    } catch (e: any) {
-      clearTimeout(timer);
-      if (e?.name === 'AbortError') throw new APIError('Stream request timed out', 408);
-      throw new APIError(`Network error: ${e?.message ?? e}`, 0);
+  /**
+   * The reassembled completion once the stream has been read to the end,
+   * by whoever reads it. Unlike finalChatCompletion(), this does not start
+   * the stream. Rejects if the stream fails, is aborted or is closed early.
+   */
+  settled(): Promise<StreamedChatCompletion> {
+    return this.ended.then(() => this.accumulator.snapshot());
+  }
+
+  /**
+   * Stop the stream: close the connection if it is open, or never send the
+   * request if reading has not started. Reading it afterwards raises
+   * APIUserAbortError.
+   */
+  abort(): void {
+    this.aborter.abort();
+    if (!this.started) this.settle(new APIUserAbortError());
+  }
+
+  /** Text content of the first choice once the stream completes. */
+  async finalContent(): Promise<string | null> {
+    const completion = await this.finalChatCompletion();
+    return completion.choices[0]?.message.content ?? null;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ChatCompletionChunk> {
+    if (this.started) {
+      throw new WaterlightError('Stream has already been consumed; use finalChatCompletion() to read it again');
     }
+    this.started = true;
+    return this.iterate();
+  }
 
-    if (!res.ok) {
-      let errMsg = '';
-      try { errMsg = await res.text(); } catch {}
-      throw new WaterlightError(`Streaming error: ${res.status} ${errMsg}`, res.status);
+  private async *iterate(): AsyncGenerator<ChatCompletionChunk> {
+    const { onEvent } = this.options;
+    let outcome: unknown = new WaterlightError('Stream was closed before it completed');
+    let count = 0;
+    try {
+      for await (const chunk of this.chunks()) {
+        if (count++ === 0) onEvent?.({ type: 'first_chunk' });
+        this.accumulator.add(chunk);
+        yield chunk;
+      }
+      outcome = undefined;
+      onEvent?.({ type: 'end', chunks: count, completion: this.accumulator.snapshot() });
+    } catch (e) {
+      outcome = e;
+      throw e;
+    } finally {
+      if (outcome !== undefined) onEvent?.({ type: 'error', error: outcome, chunks: count, completion: this.accumulator.snapshot() });
+      this.settle(outcome);
     }
+  }
 
-    const reader = res.body!.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+  private async *chunks(): AsyncGenerator<ChatCompletionChunk> {
+    const { idleTimeout, totalTimeout, signal } = this.options;
+    if (signal?.aborted || this.aborter.signal.aborted) throw new APIUserAbortError();
+
+    // One controller ends the request whichever limit is hit first; `reason`
+    // records which, so the error raised names the right cause.
+    const controller = new AbortController();
+    let reason: WaterlightError | undefined;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    const stop = (err: WaterlightError) => {
+      reason ??= err;
+      controller.abort();
+      reader?.cancel().catch(() => {});
+    };
+    const onAbort = () => stop(new APIUserAbortError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+    this.aborter.signal.addEventListener('abort', onAbort, { once: true });
+    const totalTimer = totalTimeout
+      ? setTimeout(() => stop(new APIError(`Stream exceeded total timeout of ${totalTimeout}ms`, 408)), totalTimeout)
+      : undefined;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const armIdle = () => {
+      clearTimeout(idleTimer);
+      if (idleTimeout) {
+        idleTimer = setTimeout(() => stop(new APIError(`Stream idle for more than ${idleTimeout}ms`, 408)), idleTimeout);
+      }
+    };
 
     try {
+      let res: Response;
+      try {
+        res = await this.connect(controller.signal);
+      } catch (e) {
+        throw reason ?? e;
+      }
+
+      reader = res.body!.getReader();
+      const textDecoder = new TextDecoder();
+      const sse = new SSEDecoder();
+      armIdle();
+
       while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-        if (buffer.length > MAX_SSE_BUFFER) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (e: any) {
+          throw reason ?? new APIError(`Network error: ${e?.message ?? e}`, 0);
+        }
+        if (reason) throw reason;
+        armIdle();
+
+        const events = chunk.done
+          ? sse.decode(textDecoder.decode()).concat(sse.flush())
+          : sse.decode(textDecoder.decode(chunk.value, { stream: true }));
+        if (sse.pending > MAX_SSE_BUFFER) {
           throw new APIError('SSE buffer overflow: server sent too much data without delimiters', 0);
         }
 
-        // Process complete SSE events (double newline delimited)
-        let boundary: number;
-        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
-          const rawEvent = buffer.slice(0, boundary);
-          buffer = buffer.slice(boundary + 2);
-
-          for (const line of rawEvent.split('\n')) {
-            if (!line.startsWith('data:')) continue;
-            const data = line.slice(5).trim();
-            if (data === '[DONE]') return;
-            try {
-              yield JSON.parse(data) as ChatCompletionChunk;
-            } catch {
-              // skip malformed chunks
-            }
-          }
+        for (const event of events) {
+          if (event.data === '[DONE]') return;
+          const parsed = parseEvent(event, res.headers);
+          if (parsed) yield parsed;
         }
+        if (chunk.done) break;
       }
     } finally {
-      clearTimeout(timer);
-      reader.releaseLock();
+      clearTimeout(totalTimer);
+      clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', onAbort);
+      this.aborter.signal.removeEventListener('abort', onAbort);
+      reader?.releaseLock();
     }
   }
 }
+
+/** Turn one SSE event into a chunk, or throw for error frames and malformed data. */
+function parseEvent(event: ServerSentEvent, headers: Headers): ChatCompletionChunk | null {
+  if (event.event !== null && event.event !== 'message' && event.event !== 'error') return null;
+
+  let payload: any;
+  try {
+    payload = JSON.parse(event.data);
+  } catch {
+    if (event.event === 'error') throw new APIError(event.data || 'Stream error', 0, headers.get('x-request-id') ?? undefined);
+    throw new APIError(`Malformed stream chunk: ${event.data.slice(0, 100)}`, 0, headers.get('x-request-id') ?? undefined);
+  }
+
+  if (event.event === 'error' || (payload && typeof payload === 'object' && 'error' in payload && !('choices' in payload))) {
+    const err = payload?.error;
+    const status = typeof err === 'object' && typeof err?.status === 'number' ? err.status
+      : typeof err?.code === 'number' ? err.code
+      : 0;
+    throw makeStatusError(status, payload, headers);
+  }
+  return payload as ChatCompletionChunk;
+}
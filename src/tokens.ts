@@ -0,0 +1,179 @@
+import type { Message, Tool } from './types';
+import { WaterlightError } from './errors';
+
+/**
+ * Offline token estimates for BPE tokenizers of the cl100k/o200k family.
+ * Text is split the way those tokenizers pre-split it (words with their
+ * leading space, digit runs, punctuation runs, CJK characters) and each
+ * piece is costed by length. Typical English prose and JSON land within
+ * ~10% of the real count; treat results as estimates and keep a margin.
+ */
+
+// Letters with an optional leading space, digit runs of up to three, punctuation
+// runs with an optional leading space, newline runs, other whitespace.
+const PIECE = /\s?[\p{L}\p{M}]+|\p{N}{1,3}|\s?[^\s\p{L}\p{N}]+|\n+|\s+/gu;
+// Kana, CJK ideographs and Hangul cost roughly one token per character.
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/u;
+
+/** Fixed cost of each message in a chat request (role and delimiters). */
+const TOKENS_PER_MESSAGE = 3;
+/** Extra cost when a message carries `name`. */
+const TOKENS_PER_NAME = 1;
+/** Every reply is primed with `<|start|>assistant<|message|>`. */
+const REPLY_PRIMING = 3;
+/** Framing around each tool definition and each tool call. */
+const TOKENS_PER_TOOL = 8;
+const TOKENS_PER_TOOL_CALL = 4;
+/** Image cost at `detail: 'low'`, and at other levels for a 1024×1024 image (dimensions aren't known here). */
+const TOKENS_PER_LOW_DETAIL_IMAGE = 85;
+const TOKENS_PER_IMAGE = 765;
+/** Audio is costed by size: roughly 10 tokens a second at 128 kbit/s. */
+const AUDIO_BYTES_PER_TOKEN = 1600;
+
+/** Estimated token count of a string. */
+export function countTokens(text: string): number {
+  if (!text) return 0;
+  let total = 0;
+  for (const [piece] of text.matchAll(PIECE)) {
+    if (CJK.test(piece)) {
+      total += piece.trimStart().length;
+    } else if (/^\s+$/.test(piece)) {
+      total += piece.includes('\n') ? 1 : Math.ceil(piece.length / 8);
+    } else if (/^\s?[\p{L}\p{M}]+$/u.test(piece)) {
+      // Common words are a single token; long or rare words split into ~4-char pieces.
+      const letters = piece.trimStart().length;
+      total += letters <= 6 ? 1 : Math.ceil(letters / 4);
+    } else if (/^\p{N}+$/u.test(piece)) {
+      total += 1;
+    } else {
+      total += Math.ceil(piece.trimStart().length / 2);
+    }
+  }
+  return total;
+}
+
+/**
+ * Estimated prompt tokens for a chat request: every message (content
+ * including image and audio parts, name, tool calls and tool results), any
+ * tool definitions, and the reply priming the server adds.
+ */
+export function countMessageTokens(messages: Message[], tools?: Tool[]): number {
+  let total = REPLY_PRIMING;
+  for (const message of messages) total += messageTokens(message);
+  for (const tool of tools ?? []) {
+    total += TOKENS_PER_TOOL + countTokens(tool.function.name) + countTokens(tool.function.description ?? '');
+    if (tool.function.parameters) total += countTokens(JSON.stringify(tool.function.parameters));
+  }
+  return total;
+}
+
+function messageTokens(message: Message): number {
+  let total = TOKENS_PER_MESSAGE + contentTokens(message.content);
+  if (message.name) total += TOKENS_PER_NAME + countTokens(message.name);
+  if (message.tool_call_id) total += countTokens(message.tool_call_id);
+  for (const call of message.tool_calls ?? []) {
+    total += TOKENS_PER_TOOL_CALL + countTokens(call.function.name) + countTokens(call.function.arguments);
+  }
+  return total;
+}
+
+function contentTokens(content: Message['content']): number {
+  if (typeof content === 'string') return countTokens(content);
+  let total = 0;
+  for (const part of content ?? []) {
+    if (part.type === 'text') total += countTokens(part.text);
+    else if (part.type === 'image_url') total += part.image_url.detail === 'low' ? TOKENS_PER_LOW_DETAIL_IMAGE : TOKENS_PER_IMAGE;
+    else total += Math.ceil(part.input_audio.data.length * 3 / 4 / AUDIO_BYTES_PER_TOKEN);
+  }
+  return total;
+}
+
+export interface FitOptions {
+  /** The model's context window, in tokens. */
+  contextWindow: number;
+  /** Tokens to leave free for the completion (usually the request's max_tokens). */
+  maxTokens?: number;
+  /** Tool definitions that will be sent with the request. */
+  tools?: Tool[];
+}
+
+export interface FitResult {
+  messages: Message[];
+  /** Estimated prompt tokens of `messages` (plus tools). */
+  tokens: number;
+  /** Messages removed, oldest first. */
+  dropped: Message[];
+  /** True if the final message's content had to be cut to fit. */
+  truncated: boolean;
+}
+
+/**
+ * Drop the oldest non-system messages until the prompt plus `maxTokens`
+ * fits `contextWindow`. System messages and the newest turn are always
+ * kept, and an assistant message with tool calls is dropped together with
+ * its tool results so the history never contains orphaned `role: 'tool'`
+ * messages. If that is still too large and the newest message is plain
+ * text, its text is cut from the front.
+ *
+ * @throws WaterlightError if the kept messages cannot be made to fit
+ */
+export function fitMessages(messages: Message[], options: FitOptions): FitResult {
+  const budget = options.contextWindow - (options.maxTokens ?? 0);
+
+  // Group each assistant tool-call message with the tool results that follow it.
+  const groups: { start: number; end: number; tokens: number }[] = [];
+  for (let i = 0; i < messages.length;) {
+    let end = i + 1;
+    if (messages[i].tool_calls?.length) {
+      while (end < messages.length && messages[end].role === 'tool') end++;
+    }
+    let tokens = 0;
+    for (let j = i; j < end; j++) tokens += messageTokens(messages[j]);
+    groups.push({ start: i, end, tokens });
+    i = end;
+  }
+
+  let total = countMessageTokens([], options.tools) + groups.reduce((sum, g) => sum + g.tokens, 0);
+  const drop = new Set<number>();
+  const lastGroup = groups.length - 1;
+  for (let g = 0; g < lastGroup && total > budget; g++) {
+    if (messages[groups[g].start].role === 'system') continue;
+    for (let j = groups[g].start; j < groups[g].end; j++) drop.add(j);
+    total -= groups[g].tokens;
+  }
+
+  let kept = messages.filter((_, i) => !drop.has(i));
+  const dropped = messages.filter((_, i) => drop.has(i));
+  let truncated = false;
+
+  if (total > budget) {
+    const last = kept[kept.length - 1];
+    const single = lastGroup >= 0 && groups[lastGroup].end - groups[lastGroup].start === 1;
+    const rest = total - (last ? messageTokens(last) : 0);
+    const room = budget - rest - (last ? messageTokens({ ...last, content: '' }) : 0);
+    if (!last || !single || last.role === 'system' || typeof last.content !== 'string' || room <= 0) {
+      throw new WaterlightError(
+        `Messages need ~${total} tokens but only ${budget} are available ` +
+        `(contextWindow ${options.contextWindow} - maxTokens ${options.maxTokens ?? 0})`,
+      );
+    }
+    const content = truncateStart(last.content, room);
+    kept = [...kept.slice(0, -1), { ...last, content }];
+    total = rest + messageTokens(kept[kept.length - 1]);
+    truncated = true;
+  }
+
+  return { messages: kept, tokens: total, dropped, truncated };
+}
+
+/** Keep the end of `text`, cutting from the front until it is at most `maxTokens`. */
+function truncateStart(text: string, maxTokens: number): string {
+  let lo = 0;
+  let hi = text.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (countTokens(text.slice(mid)) <= maxTokens) hi = mid;
+    else lo = mid + 1;
+  }
+  return text.slice(lo);
+}
@@ -0,0 +1,180 @@
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionCreateParams,
+  Message,
+  RequestOptions,
+  StreamedChatCompletion,
+  Tool,
+  ToolCall,
+} from './types';
+import type { Stream } from './streaming';
+import { validateSchema } from './schema';
+import { WaterlightError } from './errors';
+
+/** A tool definition paired with the function that executes it. */
+export interface RunnableTool<Args = any> extends Tool {
+  /** Receives the parsed, schema-validated arguments; the return value is sent back as the tool message. */
+  handler: (args: Args, call: ToolCall) => unknown | Promise<unknown>;
+}
+
+export interface RunToolsParams extends Omit<ChatCompletionCreateParams, 'tools'> {
+  tools: RunnableTool[];
+  /** Maximum number of chat completions to request (default 10). */
+  maxIterations?: number;
+}
+
+/** Outcome of one tool call within a run. */
+export interface ToolResult {
+  call: ToolCall;
+  /** What was sent back to the model as the `role: 'tool'` message. */
+  content: string;
+  /** Set when arguments failed to parse/validate or the handler threw. */
+  error?: unknown;
+}
+
+export interface ToolRunResult {
+  /** The full transcript: the input messages plus every assistant and tool message. */
+  messages: Message[];
+  /** The last completion returned by the model. */
+  completion: StreamedChatCompletion;
+  /** Number of chat completions requested. */
+  iterations: number;
+  /** 'stop' when the model answered without tools; 'max_iterations' when the cap ended the run. */
+  stoppedBy: 'stop' | 'max_iterations';
+}
+
+export interface ToolRunnerEvents {
+  /** Each streamed chunk (streaming mode only). */
+  chunk: (chunk: ChatCompletionChunk) => void;
+  /** Each completion, once per iteration. */
+  completion: (completion: StreamedChatCompletion) => void;
+  /** Each message appended to the transcript. */
+  message: (message: Message) => void;
+  /** A tool call about to be executed. */
+  toolCall: (call: ToolCall) => void;
+  /** A tool call's result, including failures reported back to the model. */
+  toolResult: (result: ToolResult) => void;
+  end: (result: ToolRunResult) => void;
+  error: (error: unknown) => void;
+}
+
+type CreateFn = (params: ChatCompletionCreateParams, options?: RequestOptions) => Promise<ChatCompletion> | Stream;
+
+const DEFAULT_MAX_ITERATIONS = 10;
+
+/**
+ * Drives the tool-calling loop: request a completion, run any requested
+ * tools (concurrently), append their results and repeat until the model
+ * answers without tools or `maxIterations` is reached.
+ *
+ * Invalid arguments, unknown tools and handler exceptions do not end the
+ * run — they are reported to the model as the tool's output so it can
+ * correct itself. Request errors reject `done()`.
+ *
+ * The run starts on construction; attach listeners synchronously.
+ */
+export class ToolRunner {
+  private readonly listeners: { [K in keyof ToolRunnerEvents]?: ToolRunnerEvents[K][] } = {};
+  private readonly transcript: Message[];
+  private readonly result: Promise<ToolRunResult>;
+
+  constructor(create: CreateFn, params: RunToolsParams, options?: RequestOptions) {
+    this.transcript = [...params.messages];
+    this.result = Promise.resolve().then(() => this.run(create, params, options));
+    this.result.then(
+      result => this.emit('end', result),
+      error => this.emit('error', error),
+    );
+  }
+
+  /** The transcript so far; complete once `done()` resolves. */
+  get messages(): Message[] {
+    return this.transcript;
+  }
+
+  on<K extends keyof ToolRunnerEvents>(event: K, listener: ToolRunnerEvents[K]): this {
+    ((this.listeners[event] ??= []) as ToolRunnerEvents[K][]).push(listener);
+    return this;
+  }
+
+  /** Resolves when the run ends. */
+  done(): Promise<ToolRunResult> {
+    return this.result;
+  }
+
+  /** Content of the model's final answer. */
+  async finalContent(): Promise<string | null> {
+    const { completion } = await this.result;
+    return completion.choices[0]?.message.content ?? null;
+  }
+
+  private emit<K extends keyof ToolRunnerEvents>(event: K, ...args: Parameters<ToolRunnerEvents[K]>): void {
+    for (const listener of this.listeners[event] ?? []) {
+      (listener as (...a: Parameters<ToolRunnerEvents[K]>) => void)(...args);
+    }
+  }
+
+  private append(message: Message): void {
+    this.transcript.push(message);
+    this.emit('message', message);
+  }
+
+  private async run(create: CreateFn, params: RunToolsParams, options?: RequestOptions): Promise<ToolRunResult> {
+    const { tools, maxIterations = DEFAULT_MAX_ITERATIONS, ...rest } = params;
+    const byName = new Map(tools.map(t => [t.function.name, t]));
+    const definitions: Tool[] = tools.map(({ type, function: fn }) => ({ type, function: fn }));
+
+    for (let iteration = 1; ; iteration++) {
+      const request = { ...rest, messages: [...this.transcript], tools: definitions };
+      const completion = rest.stream
+        ? await this.consume(create({ ...request, stream: true }, options) as Stream)
+        : await (create({ ...request, stream: false }, options) as Promise<ChatCompletion>);
+      this.emit('completion', completion);
+
+      const message = completion.choices[0]?.message;
+      if (!message) throw new WaterlightError('Tool runner received a completion with no choices');
+      this.append(message);
+
+      const calls = message.tool_calls ?? [];
+      if (!calls.length) return { messages: this.transcript, completion, iterations: iteration, stoppedBy: 'stop' };
+      if (iteration >= maxIterations) {
+        return { messages: this.transcript, completion, iterations: iteration, stoppedBy: 'max_iterations' };
+      }
+
+      const results = await Promise.all(calls.map(call => this.execute(call, byName.get(call.function.name))));
+      for (const { call, content } of results) {
+        this.append({ role: 'tool', tool_call_id: call.id, content });
+      }
+    }
+  }
+
+  private async consume(stream: Stream): Promise<StreamedChatCompletion> {
+    for await (const chunk of stream) this.emit('chunk', chunk);
+    return stream.finalChatCompletion();
+  }
+
+  private async execute(call: ToolCall, tool: RunnableTool | undefined): Promise<ToolResult> {
+    this.emit('toolCall', call);
+    let result: ToolResult;
+    try {
+      if (!tool) throw new WaterlightError(`Unknown tool "${call.function.name}"`);
+      let args: unknown;
+      try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch {
+        throw new WaterlightError(`Invalid JSON arguments for "${call.function.name}": ${call.function.arguments}`);
+      }
+      const problems = validateSchema(tool.function.parameters ?? {}, args);
+      if (problems.length) {
+        throw new WaterlightError(`Invalid arguments for "${call.function.name}": ${problems.join('; ')}`);
+      }
+      const output = await tool.handler(args, call);
+      result = { call, content: typeof output === 'string' ? output : JSON.stringify(output ?? null) };
+    } catch (e: any) {
+      result = { call, content: `Error: ${e?.message ?? e}`, error: e };
+    }
+    this.emit('toolResult', result);
+    return result;
+  }
+}
@@ -1,13 +1,48 @@
 export type Role = 'system' | 'user' | 'assistant' | 'tool';
 
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImagePart {
+  type: 'image_url';
+  image_url: {
+    /** An https URL or a base64 `data:` URL (see imagePart()). */
+    url: string;
+    /** `low` is cheaper and faster; `high` lets the model see fine detail. Default `auto`. */
+    detail?: 'auto' | 'low' | 'high';
+  };
+}
+
+export interface AudioPart {
+  type: 'input_audio';
+  input_audio: {
+    /** Base64 audio, without a `data:` prefix. */
+    data: string;
+    format: 'wav' | 'mp3';
+  };
+}
+
+/** One piece of a multimodal message. */
+export type ContentPart = TextPart | ImagePart | AudioPart;
+
 export interface Message {
   role: Role;
-  content: string | null;
+  /** Text, or (for user messages to multimodal models) a list of text, image and audio parts. */
+  content: string | ContentPart[] | null;
+  /** Set instead of content when the model declines to answer. */
+  refusal?: string | null;
   name?: string;
   tool_call_id?: string;
   tool_calls?: ToolCall[];
 }
 
+/** A message returned by the API; its content is always text. */
+export interface ChatCompletionMessage extends Message {
+  content: string | null;
+}
+
 export interface FunctionCall {
   name: string;
   arguments: string;
@@ -31,27 +66,81 @@ export interface Tool {
 export type ToolChoice =
   | 'none'
   | 'auto'
+  | 'required'
   | { type: 'function'; function: { name: string } };
 
+export interface JSONSchemaFormat<S extends Record<string, any> = Record<string, any>> {
+  name: string;
+  description?: string;
+  schema?: S;
+  strict?: boolean | null;
+}
+
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: JSONSchemaFormat };
+
 export interface ChatCompletionCreateParams {
   model: string;
   messages: Message[];
   stream?: boolean;
+  /** Streams only: `include_usage` adds a final chunk with empty `choices` and the request's usage. */
+  stream_options?: { include_usage?: boolean };
   tools?: Tool[];
   tool_choice?: ToolChoice;
+  /** Allow several tool calls in one turn (server default true). */
+  parallel_tool_calls?: boolean;
+  /** Older name for `max_completion_tokens`; the SDK budgets with `max_completion_tokens` when both are set. */
   max_tokens?: number;
+  max_completion_tokens?: number;
+  /** Number of choices to generate; each is billed for its completion tokens. */
+  n?: number;
   temperature?: number;
   top_p?: number;
+  /** Best-effort determinism: compare `system_fingerprint` to tell when the backend changed. */
+  seed?: number;
   stop?: string | string[];
   presence_penalty?: number;
   frequency_penalty?: number;
+  /** Token id (as a string) to a bias from -100 to 100. */
+  logit_bias?: Record<string, number>;
+  /** Return the log probability of each output token. */
+  logprobs?: boolean;
+  /** Alternatives (0-20) to return per token position; requires `logprobs`. */
+  top_logprobs?: number;
   user?: string;
+  /** Up to 16 string pairs stored with the request. */
+  metadata?: Record<string, string>;
+  response_format?: ResponseFormat;
+}
+
+/** Why generation stopped. `function_call` only appears from legacy function-calling models. */
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'function_call';
+
+export interface TopLogprob {
+  token: string;
+  logprob: number;
+  /** UTF-8 bytes of the token, for tokens that split a multi-byte character; null if unavailable. */
+  bytes: number[] | null;
+}
+
+export interface TokenLogprob extends TopLogprob {
+  /** The most likely tokens at this position; empty unless `top_logprobs` was set. */
+  top_logprobs: TopLogprob[];
+}
+
+export interface ChoiceLogprobs {
+  content: TokenLogprob[] | null;
+  refusal: TokenLogprob[] | null;
 }
 
 export interface Choice {
   index: number;
-  message: Message;
-  finish_reason: string | null;
+  message: ChatCompletionMessage;
+  finish_reason: FinishReason | null;
+  /** Present when the request set `logprobs`. */
+  logprobs?: ChoiceLogprobs | null;
 }
 
 export interface Usage {
@@ -60,25 +149,74 @@ export interface Usage {
   total_tokens: number;
 }
 
+/** How a result relates to the client's response cache; absent when caching is off or skipped. */
+export interface CacheInfo {
+  /** True if the result was served from the cache. */
+  hit: boolean;
+  key: string;
+  /** When the entry was stored (epoch ms). */
+  createdAt: number;
+}
+
+/** Which model and endpoint served a request under failover routing. */
+export interface RouteInfo {
+  model: string;
+  baseUrl: string;
+  /** Targets tried first, in order, with the error that moved the request on from each. */
+  failed: { model: string; baseUrl: string; error: Error }[];
+}
+
 export interface ChatCompletion {
   id: string;
   object: 'chat.completion';
   created: number;
   model: string;
+  /** Identifies the backend configuration; changes can affect determinism under `seed`. */
+  system_fingerprint?: string | null;
   choices: Choice[];
   usage: Usage;
+  cache?: CacheInfo;
+  /** Set when the client has `failover` configured. */
+  route?: RouteInfo;
+}
+
+/** A fragment of a tool call as streamed; fragments sharing `index` concatenate into one ToolCall. */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+export interface ParsedMessage<T> extends ChatCompletionMessage {
+  /** `content` parsed as JSON and validated against the requested schema. */
+  parsed: T;
+}
+
+export interface ParsedChoice<T> extends Choice {
+  message: ParsedMessage<T>;
+}
+
+export interface ParsedChatCompletion<T> extends ChatCompletion {
+  choices: ParsedChoice<T>[];
 }
 
 export interface Delta {
   role?: Role;
   content?: string | null;
-  tool_calls?: ToolCall[];
+  refusal?: string | null;
+  tool_calls?: ToolCallDelta[];
 }
 
 export interface StreamChoice {
   index: number;
   delta: Delta;
-  finish_reason: string | null;
+  finish_reason: FinishReason | null;
+  /** Log probabilities of the tokens in this chunk's delta. */
+  logprobs?: ChoiceLogprobs | null;
 }
 
 export interface ChatCompletionChunk {
@@ -86,36 +224,215 @@ export interface ChatCompletionChunk {
   object: 'chat.completion.chunk';
   created: number;
   model: string;
+  system_fingerprint?: string | null;
+  /** Empty in the final chunk sent for `stream_options.include_usage`. */
   choices: StreamChoice[];
+  /** Null on every chunk but the last when `stream_options.include_usage` is set. */
+  usage?: Usage | null;
 }
 
+/** A ChatCompletion reassembled from stream chunks; `usage` is present only if the server sent it. */
+export type StreamedChatCompletion = Omit<ChatCompletion, 'usage'> & { usage?: Usage };
+
+/** `base64` responses are smaller on the wire; the SDK decodes them to Float32Array. */
+export type EmbeddingEncodingFormat = 'float' | 'base64';
+
 export interface EmbeddingCreateParams {
   input: string | string[];
   model?: string;
-  encoding_format?: string;
+  encoding_format?: EmbeddingEncodingFormat;
 }
 
-export interface Embedding {
+export interface Embedding<V = number[]> {
   object: 'embedding';
   index: number;
-  embedding: number[];
+  embedding: V;
 }
 
-export interface EmbeddingResponse {
+export interface EmbeddingResponse<V = number[]> {
   object: 'list';
-  data: Embedding[];
+  data: Embedding<V>[];
   model: string;
   usage: Usage;
+  cache?: CacheInfo;
+}
+
+/** Price of a model in USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  /** Defaults to `input`; irrelevant for embedding models. */
+  output?: number;
+}
+
+/** Features a model supports. Servers may leave any out; a missing flag means unknown, not unsupported. */
+export interface ModelCapabilities {
+  tools?: boolean;
+  /** Image content parts. */
+  vision?: boolean;
+  /** Audio content parts. */
+  audio?: boolean;
+  /** `response_format: { type: 'json_object' }`. */
+  json_mode?: boolean;
+  /** `response_format: { type: 'json_schema' }`. */
+  structured_outputs?: boolean;
+  streaming?: boolean;
 }
 
+/** A model as listed by the API. Everything after `owned_by` is optional metadata not every server sends. */
 export interface Model {
   id: string;
   object: 'model';
   created: number;
   owned_by: string;
+  /** Most tokens of prompt and completion combined. */
+  context_window?: number;
+  /** Most completion tokens per request. */
+  max_output_tokens?: number;
+  capabilities?: ModelCapabilities;
+  pricing?: ModelPrice;
+  cache?: CacheInfo;
 }
 
 export interface ModelList {
   object: 'list';
   data: Model[];
+  cache?: CacheInfo;
+}
+
+export type FilePurpose = 'batch' | 'batch_output' | 'fine-tune' | 'assistants' | 'vision' | 'user_data';
+
+export interface FileObject {
+  id: string;
+  object: 'file';
+  /** Size in bytes. */
+  bytes: number;
+  created_at: number;
+  filename: string;
+  purpose: FilePurpose;
+  status?: 'uploaded' | 'processed' | 'error';
+  expires_at?: number | null;
+}
+
+export interface FileCreateParams {
+  /** A file path, bytes, or a Blob (including File). */
+  file: string | Uint8Array | ArrayBuffer | Blob;
+  purpose: FilePurpose;
+  /** Defaults to the path's base name or the File's name, else `upload`. */
+  filename?: string;
+}
+
+export interface FileListParams {
+  purpose?: FilePurpose;
+  limit?: number;
+  /** Cursor: the id of the last file of the previous page. */
+  after?: string;
+  order?: 'asc' | 'desc';
+}
+
+export interface FileList {
+  object: 'list';
+  data: FileObject[];
+  has_more?: boolean;
+  first_id?: string | null;
+  last_id?: string | null;
+}
+
+export interface FileDeleted {
+  id: string;
+  object: 'file';
+  deleted: boolean;
+}
+
+/** Endpoints a batch can run. */
+export type BatchEndpoint = '/v1/chat/completions' | '/v1/embeddings';
+
+/** `completed`, `failed`, `expired` and `cancelled` are final. */
+export type BatchStatus =
+  | 'validating'
+  | 'failed'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'expired'
+  | 'cancelling'
+  | 'cancelled';
+
+export interface BatchError {
+  code?: string;
+  message: string;
+  param?: string | null;
+  /** Line of the input file the error refers to. */
+  line?: number | null;
+}
+
+export interface Batch {
+  id: string;
+  object: 'batch';
+  endpoint: BatchEndpoint;
+  input_file_id: string;
+  completion_window: string;
+  status: BatchStatus;
+  /** Responses, one JSONL line per successful request; set once the batch finishes. */
+  output_file_id?: string | null;
+  /** Responses of the requests that failed. */
+  error_file_id?: string | null;
+  /** Why the input was rejected, for status `failed`. */
+  errors?: { object: 'list'; data: BatchError[] } | null;
+  request_counts?: { total: number; completed: number; failed: number };
+  metadata?: Record<string, string> | null;
+  created_at: number;
+  in_progress_at?: number | null;
+  expires_at?: number | null;
+  finalizing_at?: number | null;
+  completed_at?: number | null;
+  failed_at?: number | null;
+  expired_at?: number | null;
+  cancelling_at?: number | null;
+  cancelled_at?: number | null;
+}
+
+export interface BatchCreateParams {
+  /** A file uploaded with purpose `batch`. */
+  input_file_id: string;
+  endpoint: BatchEndpoint;
+  completion_window: '24h';
+  metadata?: Record<string, string>;
+}
+
+export interface BatchListParams {
+  limit?: number;
+  /** Cursor: the id of the last batch of the previous page. */
+  after?: string;
+}
+
+export interface BatchList {
+  object: 'list';
+  data: Batch[];
+  has_more?: boolean;
+  first_id?: string | null;
+  last_id?: string | null;
+}
+
+/** Per-call overrides accepted as the last argument of every namespace method. */
+export interface RequestOptions {
+  /** Cancels the request; surfaces as APIUserAbortError. */
+  signal?: AbortSignal;
+  /** Overrides the client timeout (ms) for this call. */
+  timeout?: number;
+  /** Streams only: overrides the client idleTimeout (ms between bytes). */
+  idleTimeout?: number;
+  /** Streams only: overrides the client totalTimeout (ms for the whole stream). */
+  totalTimeout?: number;
+  /** Overrides the client maxRetries for this call. */
+  maxRetries?: number;
+  /** Extra headers, merged over the SDK defaults. */
+  headers?: Record<string, string>;
+  /** Query parameters appended to the request URL. */
+  query?: Record<string, string | number | boolean | undefined>;
+  /** With a client cache: `false` bypasses it, `true` caches even what the cache filter would skip. */
+  cache?: boolean;
+  /** Groups this request in the client's usage tracker; defaults to the request's `user` field. */
+  tag?: string;
+  /** Chat only, with client failover: models to fall back to instead of the configured ones (`[]` for none). */
+  fallbackModels?: string[];
 }
@@ -0,0 +1,242 @@
+import type { ModelPrice, Usage } from './types';
+import { PriceTable } from './spend';
+
+export interface UsageTrackerOptions {
+  /**
+   * Prices for cost estimates, in USD per million tokens, looked up as in
+   * the spend guard. Defaults to the spend guard's prices, if any.
+   */
+  prices?: Record<string, ModelPrice>;
+  /** Records kept; the oldest are dropped beyond this (default 100,000). */
+  maxRecords?: number;
+}
+
+/** One chat or embeddings request as recorded by the tracker. */
+export interface UsageRecord {
+  /** When the request finished (ms since the epoch). */
+  timestamp: number;
+  path: string;
+  /** The model that answered, or the requested one if the request failed. */
+  model: string;
+  tag?: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  /** From the start of the call to its last byte, retries included. */
+  latencyMs: number;
+  /** Estimated cost (USD); 0 for unpriced models. */
+  cost: number;
+  /** True if the request failed; failed requests carry no tokens. */
+  error: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  errors: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+  /** Mean latency (ms) over all requests, failed ones included. */
+  avgLatencyMs: number;
+}
+
+/** Aggregated usage over `[since, until)`. */
+export interface UsageSnapshot {
+  since: number;
+  until: number;
+  totals: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  /** Untagged requests count toward `totals` and `byModel` only. */
+  byTag: Record<string, UsageTotals>;
+}
+
+/** Narrows the records a snapshot, report or export covers. */
+export interface UsageFilter {
+  /** Inclusive start (ms since the epoch). */
+  since?: number;
+  /** Exclusive end (ms since the epoch). */
+  until?: number;
+  model?: string;
+  tag?: string;
+}
+
+const DEFAULT_MAX_RECORDS = 100_000;
+const CSV_COLUMNS = [
+  'period_start', 'period_end', 'model', 'tag', 'requests', 'errors',
+  'prompt_tokens', 'completion_tokens', 'total_tokens', 'cost_usd', 'avg_latency_ms',
+] as const;
+
+/**
+ * Records token usage, latency and estimated cost for every chat and
+ * embeddings request a client makes, streams included, and aggregates it
+ * by model and by tag for chargeback. Tag a request with the `tag` request
+ * option; otherwise its `user` field is used.
+ *
+ * @example
+ * ```ts
+ * const client = new Waterlight({ usage: { prices: { 'mist-1': { input: 0.5, output: 1.5 } } } });
+ * await client.chat.completions.create(params, { tag: 'search-team' });
+ * console.log(client.usage!.snapshot().byTag['search-team'].cost);
+ * fs.writeFileSync('usage.csv', client.usage!.toCSV({ interval: 24 * 3600_000 }));
+ * ```
+ */
+export class UsageTracker {
+  private readonly prices: PriceTable;
+  private readonly maxRecords: number;
+  private entries: UsageRecord[] = [];
+
+  constructor(options: UsageTrackerOptions = {}, private readonly now: () => number = Date.now) {
+    this.prices = new PriceTable(options.prices);
+    this.maxRecords = options.maxRecords ?? DEFAULT_MAX_RECORDS;
+  }
+
+  /** Every record kept, oldest first. */
+  get records(): readonly UsageRecord[] {
+    return this.entries;
+  }
+
+  /**
+   * Add a record. The client calls this for each request; call it yourself
+   * to account for usage from elsewhere. `cost` is estimated from the price
+   * table when omitted.
+   */
+  record(entry: {
+    path: string;
+    model: string;
+    tag?: string;
+    usage?: Partial<Usage>;
+    latencyMs: number;
+    error?: boolean;
+    timestamp?: number;
+    cost?: number;
+  }): UsageRecord {
+    const prompt = entry.usage?.prompt_tokens ?? 0;
+    const completion = entry.usage?.completion_tokens ?? 0;
+    const record: UsageRecord = {
+      timestamp: entry.timestamp ?? this.now(),
+      path: entry.path,
+      model: entry.model,
+      ...(entry.tag !== undefined ? { tag: entry.tag } : {}),
+      prompt_tokens: prompt,
+      completion_tokens: completion,
+      total_tokens: entry.usage?.total_tokens ?? prompt + completion,
+      latencyMs: entry.latencyMs,
+      cost: entry.cost ?? this.prices.cost(entry.model, { prompt_tokens: prompt, completion_tokens: completion }),
+      error: entry.error ?? false,
+    };
+    this.entries.push(record);
+    if (this.entries.length > this.maxRecords) this.entries.splice(0, this.entries.length - this.maxRecords);
+    return record;
+  }
+
+  /** Totals over the matching records, overall and by model and tag. */
+  snapshot(filter: UsageFilter = {}): UsageSnapshot {
+    const records = this.select(filter);
+    return {
+      since: filter.since ?? records[0]?.timestamp ?? this.now(),
+      until: filter.until ?? this.now(),
+      ...aggregate(records),
+    };
+  }
+
+  /**
+   * One snapshot per `interval` ms, aligned to multiples of it since the
+   * epoch (so daily intervals are UTC days). Intervals with no requests
+   * are included, so a report over a fixed range has a fixed length.
+   */
+  report(interval: number, filter: UsageFilter = {}): UsageSnapshot[] {
+    if (!(interval > 0)) throw new RangeError('interval must be a positive number of ms');
+    const records = this.select(filter);
+    const first = filter.since ?? records[0]?.timestamp;
+    if (first === undefined) return [];
+    const end = filter.until ?? Math.max(this.now(), records[records.length - 1].timestamp + 1);
+    const snapshots: UsageSnapshot[] = [];
+    for (let start = Math.floor(first / interval) * interval; start < end; start += interval) {
+      const since = Math.max(start, first);
+      const until = Math.min(start + interval, end);
+      snapshots.push({ since, until, ...aggregate(records.filter(r => r.timestamp >= since && r.timestamp < until)) });
+    }
+    return snapshots;
+  }
+
+  /** Raw records as JSON, e.g. to persist or ship elsewhere. */
+  toJSON(): { version: 1; records: UsageRecord[] } {
+    return { version: 1, records: [...this.entries] };
+  }
+
+  /**
+   * CSV with one row per period, model and tag (header included). Without
+   * `interval` the period is the whole filtered range.
+   */
+  toCSV(options: UsageFilter & { interval?: number } = {}): string {
+    const { interval, ...filter } = options;
+    const periods = interval ? this.report(interval, filter) : [this.snapshot(filter)];
+    const records = this.select(filter);
+    const rows: string[] = [CSV_COLUMNS.join(',')];
+    for (const period of periods) {
+      const groups = new Map<string, UsageRecord[]>();
+      for (const r of records) {
+        if (interval && (r.timestamp < period.since || r.timestamp >= period.until)) continue;
+        const key = JSON.stringify([r.model, r.tag ?? '']);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(r);
+      }
+      for (const [key, group] of [...groups].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+        const [model, tag] = JSON.parse(key) as [string, string];
+        const t = totalsOf(group);
+        rows.push([
+          new Date(period.since).toISOString(), new Date(period.until).toISOString(), model, tag,
+          t.requests, t.errors, t.prompt_tokens, t.completion_tokens, t.total_tokens, t.cost.toFixed(6), Math.round(t.avgLatencyMs),
+        ].map(csvField).join(','));
+      }
+    }
+    return rows.join('\n') + '\n';
+  }
+
+  /** Drop every record. */
+  reset(): void {
+    this.entries = [];
+  }
+
+  private select({ since, until, model, tag }: UsageFilter): UsageRecord[] {
+    return this.entries.filter(r =>
+      (since === undefined || r.timestamp >= since) &&
+      (until === undefined || r.timestamp < until) &&
+      (model === undefined || r.model === model) &&
+      (tag === undefined || r.tag === tag));
+  }
+}
+
+function aggregate(records: UsageRecord[]): Pick<UsageSnapshot, 'totals' | 'byModel' | 'byTag'> {
+  const byModel: Record<string, UsageRecord[]> = {};
+  const byTag: Record<string, UsageRecord[]> = {};
+  for (const r of records) {
+    (byModel[r.model] ??= []).push(r);
+    if (r.tag !== undefined) (byTag[r.tag] ??= []).push(r);
+  }
+  const totals = (groups: Record<string, UsageRecord[]>) =>
+    Object.fromEntries(Object.entries(groups).map(([key, group]) => [key, totalsOf(group)]));
+  return { totals: totalsOf(records), byModel: totals(byModel), byTag: totals(byTag) };
+}
+
+function totalsOf(records: UsageRecord[]): UsageTotals {
+  const t: UsageTotals = { requests: 0, errors: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: 0, avgLatencyMs: 0 };
+  let latency = 0;
+  for (const r of records) {
+    t.requests++;
+    if (r.error) t.errors++;
+    t.prompt_tokens += r.prompt_tokens;
+    t.completion_tokens += r.completion_tokens;
+    t.total_tokens += r.total_tokens;
+    t.cost += r.cost;
+    latency += r.latencyMs;
+  }
+  t.avgLatencyMs = records.length ? latency / records.length : 0;
+  return t;
+}
+
+function csvField(value: string | number): string {
+  const s = String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
@@ -0,0 +1,245 @@
+import { readFile, writeFile } from 'fs/promises';
+import type { Waterlight } from './client';
+import type { RequestOptions } from './types';
+import type { EmbeddingBatchParams } from './embeddings';
+import { WaterlightError } from './errors';
+import { decodeEmbedding } from './embeddings';
+
+/** A vector as returned by embeddings.create: number[] or Float32Array. */
+export type Vector = ArrayLike<number>;
+
+export type SimilarityMetric = 'cosine' | 'dot';
+
+export function dotProduct(a: Vector, b: Vector): number {
+  if (a.length !== b.length) throw new WaterlightError(`Vector dimensions differ: ${a.length} vs ${b.length}`);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/** Cosine of the angle between `a` and `b`, in [-1, 1]; 0 if either is all zeros. */
+export function cosineSimilarity(a: Vector, b: Vector): number {
+  const denominator = Math.sqrt(dotProduct(a, a) * dotProduct(b, b));
+  return denominator === 0 ? 0 : dotProduct(a, b) / denominator;
+}
+
+/** `v` scaled to unit length (a zero vector is returned unchanged). */
+export function normalize(v: Vector): Float32Array {
+  const norm = Math.sqrt(dotProduct(v, v));
+  const out = Float32Array.from(v);
+  if (norm > 0) for (let i = 0; i < out.length; i++) out[i] /= norm;
+  return out;
+}
+
+export interface VectorDocument<M> {
+  /** Defaults to a generated id; adding an existing id replaces that entry. */
+  id?: string;
+  text: string;
+  metadata?: M;
+}
+
+export interface VectorEntry<M> {
+  id: string;
+  text: string;
+  metadata: M;
+  vector: Float32Array;
+}
+
+export interface VectorSearchOptions<M> {
+  /** Number of results (default 4). */
+  k?: number;
+  /** Keep entries whose metadata has these exact values, or for which the function returns true. */
+  filter?: Partial<M> | ((metadata: M, entry: VectorEntry<M>) => boolean);
+  /** Drop results scoring below this. */
+  minScore?: number;
+}
+
+export interface VectorSearchResult<M> {
+  id: string;
+  text: string;
+  metadata: M;
+  score: number;
+}
+
+export interface VectorIndexOptions {
+  /** Embedding model (default: the server's). */
+  model?: string;
+  /** Default 'cosine'. Use 'dot' for vectors that are already normalised. */
+  metric?: SimilarityMetric;
+  /** Passed to embeddings.createMany() when adding documents. */
+  batch?: Pick<EmbeddingBatchParams, 'batchSize' | 'maxBatchTokens' | 'concurrency' | 'onProgress'>;
+}
+
+/** JSON form of an index, from `toJSON()` / `save()`. Vectors are base64 float32. */
+export interface VectorIndexData<M> {
+  version: 1;
+  model?: string;
+  metric: SimilarityMetric;
+  entries: { id: string; text: string; metadata: M; vector: string }[];
+}
+
+/**
+ * In-memory vector store for prototypes and tests: documents are embedded
+ * through the client, searched by brute force, and can be saved to and
+ * loaded from a JSON file. Fine for tens of thousands of entries; use a
+ * real vector database beyond that.
+ *
+ * @example
+ * ```ts
+ * const index = new VectorIndex<{ source: string }>(client);
+ * await index.add([
+ *   { text: 'Waterlight supports streaming.', metadata: { source: 'docs' } },
+ *   { text: 'Billing is monthly.', metadata: { source: 'faq' } },
+ * ]);
+ * const hits = await index.search('Can I stream?', { k: 1, filter: { source: 'docs' } });
+ * ```
+ */
+export class VectorIndex<M extends Record<string, unknown> = Record<string, unknown>> {
+  private readonly entries = new Map<string, VectorEntry<M>>();
+  private readonly model?: string;
+  private readonly metric: SimilarityMetric;
+  private readonly batch: VectorIndexOptions['batch'];
+  private nextId = 1;
+
+  constructor(private readonly client: Waterlight, options: VectorIndexOptions = {}) {
+    this.model = options.model;
+    this.metric = options.metric ?? 'cosine';
+    this.batch = options.batch;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Embed and store documents; returns their ids in input order. */
+  async add(documents: (VectorDocument<M> | string)[], options?: RequestOptions): Promise<string[]> {
+    const docs = documents.map(d => (typeof d === 'string' ? { text: d } : d));
+    if (!docs.length) return [];
+    const { data } = await this.client.embeddings.createMany(
+      { ...this.batch, input: docs.map(d => d.text), model: this.model, encoding_format: 'base64' },
+      options,
+    );
+    return docs.map((doc, i) => this.addVector({ ...doc, vector: data[i].embedding }));
+  }
+
+  /** Store a document with a vector computed elsewhere. */
+  addVector(entry: VectorDocument<M> & { vector: Vector }): string {
+    const id = entry.id ?? this.generateId();
+    const dimensions = this.dimensions;
+    if (dimensions !== undefined && entry.vector.length !== dimensions && !(this.entries.size === 1 && this.entries.has(id))) {
+      throw new WaterlightError(`Vector has ${entry.vector.length} dimensions; index has ${dimensions}`);
+    }
+    this.entries.set(id, {
+      id,
+      text: entry.text,
+      metadata: entry.metadata ?? ({} as M),
+      vector: Float32Array.from(entry.vector),
+    });
+    return id;
+  }
+
+  get(id: string): VectorEntry<M> | undefined {
+    return this.entries.get(id);
+  }
+
+  delete(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /** Top-k entries by similarity to `query` (text is embedded first), best first. */
+  async search(query: string | Vector, options: VectorSearchOptions<M> = {}, requestOptions?: RequestOptions): Promise<VectorSearchResult<M>[]> {
+    let vector: Vector;
+    if (typeof query === 'string') {
+      const { data } = await this.client.embeddings.create(
+        { input: [query], model: this.model, encoding_format: 'base64' },
+        requestOptions,
+      );
+      vector = data[0].embedding;
+    } else {
+      vector = query;
+    }
+    return this.searchVector(vector, options);
+  }
+
+  /** Synchronous search with a query vector. */
+  searchVector(vector: Vector, options: VectorSearchOptions<M> = {}): VectorSearchResult<M>[] {
+    const { k = 4, filter, minScore } = options;
+    const matches = typeof filter === 'function' ? filter : filter ? matchesMetadata(filter) : undefined;
+    const score = this.metric === 'dot' ? dotProduct : cosineSimilarity;
+
+    const results: VectorSearchResult<M>[] = [];
+    for (const entry of this.entries.values()) {
+      if (matches && !matches(entry.metadata, entry)) continue;
+      const s = score(vector, entry.vector);
+      if (minScore !== undefined && s < minScore) continue;
+      results.push({ id: entry.id, text: entry.text, metadata: entry.metadata, score: s });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  toJSON(): VectorIndexData<M> {
+    return {
+      version: 1,
+      ...(this.model !== undefined ? { model: this.model } : {}),
+      metric: this.metric,
+      entries: [...this.entries.values()].map(e => ({ id: e.id, text: e.text, metadata: e.metadata, vector: encodeVector(e.vector) })),
+    };
+  }
+
+  /** Write the index to a JSON file. */
+  async save(path: string): Promise<void> {
+    await writeFile(path, JSON.stringify(this.toJSON()));
+  }
+
+  /** Rebuild an index from `toJSON()` output. `options` override the saved model/metric. */
+  static fromJSON<M extends Record<string, unknown> = Record<string, unknown>>(
+    client: Waterlight,
+    data: VectorIndexData<M> | string,
+    options: VectorIndexOptions = {},
+  ): VectorIndex<M> {
+    const parsed: VectorIndexData<M> = typeof data === 'string' ? JSON.parse(data) : data;
+    if (parsed?.version !== 1 || !Array.isArray(parsed.entries)) throw new WaterlightError('Invalid vector index data');
+    const index = new VectorIndex<M>(client, { model: parsed.model, metric: parsed.metric, ...options });
+    for (const e of parsed.entries) index.addVector({ ...e, vector: decodeEmbedding(e.vector) });
+    return index;
+  }
+
+  /** Read an index written by save(). */
+  static async load<M extends Record<string, unknown> = Record<string, unknown>>(
+    client: Waterlight,
+    path: string,
+    options?: VectorIndexOptions,
+  ): Promise<VectorIndex<M>> {
+    return VectorIndex.fromJSON<M>(client, await readFile(path, 'utf8'), options);
+  }
+
+  private get dimensions(): number | undefined {
+    for (const entry of this.entries.values()) return entry.vector.length;
+    return undefined;
+  }
+
+  private generateId(): string {
+    while (this.entries.has(String(this.nextId))) this.nextId++;
+    return String(this.nextId++);
+  }
+}
+
+function matchesMetadata<M>(filter: Partial<M>): (metadata: M) => boolean {
+  const pairs = Object.entries(filter);
+  return metadata => pairs.every(([key, value]) => (metadata as Record<string, unknown>)[key] === value);
+}
+
+function encodeVector(vector: Float32Array): string {
+  const view = new DataView(new ArrayBuffer(vector.length * 4));
+  vector.forEach((v, i) => view.setFloat32(i * 4, v, true));
+  const bytes = new Uint8Array(view.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}